@@ -0,0 +1,146 @@
+// 序列基序 / 引物查找
+import { Genome } from '../models/genome';
+import { Sequence } from '../models/sequence';
+import { Feature } from '../models/feature';
+import { Track } from '../models/track';
+import { reverseComplement, IUPAC_BASES } from './utils';
+import type { MotifSearchOptions, MotifSearchResult, Strand } from '../../../types';
+
+/** 碱基的位掩码，简并碱基为其代表的碱基掩码之和 */
+const BASE_MASKS: Record<string, number> = { A: 1, C: 2, G: 4, T: 8 };
+
+/** 序列字符到碱基掩码的查找表，N 等未知碱基为 0，与任何位置都不匹配 */
+const SEQUENCE_MASKS = new Uint8Array(128);
+['A', 'C', 'G', 'T'].forEach(base => {
+  SEQUENCE_MASKS[base.charCodeAt(0)] = BASE_MASKS[base];
+  SEQUENCE_MASKS[base.toLowerCase().charCodeAt(0)] = BASE_MASKS[base];
+});
+SEQUENCE_MASKS['U'.charCodeAt(0)] = BASE_MASKS.T;
+SEQUENCE_MASKS['u'.charCodeAt(0)] = BASE_MASKS.T;
+
+/**
+ * 一个匹配位点，坐标为正链上从 1 开始的闭区间
+ */
+export interface MotifHit {
+  start: number;
+  end: number;
+  strand: Strand;
+  mismatches: number;
+  matched: string; // 匹配链上 5'→3' 方向的序列
+}
+
+/**
+ * 序列基序 / 引物查找类
+ * 在序列的两条链上查找允许若干错配的序列，查找序列可包含 IUPAC 简并碱基，
+ * 结果放入临时的匹配位点轨道
+ */
+export class MotifSearch {
+  /** 匹配位点轨道类型 */
+  static readonly TRACK_TYPE = 'motif_hit';
+  /** 最多保留的匹配位点数，过短的序列或过多的错配会产生大量位点 */
+  static readonly MAX_HITS = 10000;
+
+  /**
+   * 在一条序列的两条链上查找，最多返回 limit 个位点
+   * 负链上的位点换算回正链坐标；查找序列与其反向互补序列相同时只在正链上查找
+   * 环状序列在末尾接上开头的碱基，以找到跨越原点的位点（end 大于序列长度）
+   */
+  find(sequence: string, options: MotifSearchOptions, circular: boolean = false, limit: number = Infinity): MotifHit[] {
+    const pattern = options.pattern.toUpperCase();
+    const length = sequence.length;
+    const patternLength = pattern.length;
+    if (patternLength === 0 || patternLength > length) return [];
+
+    const target = circular ? sequence + sequence.substring(0, patternLength - 1) : sequence;
+    const codes = new Uint8Array(target.length);
+    for (let i = 0; i < target.length; i++) {
+      codes[i] = SEQUENCE_MASKS[target.charCodeAt(i)] || 0;
+    }
+
+    const reverse = reverseComplement(pattern);
+    const patterns: [Strand, string][] = reverse === pattern
+      ? [['+', pattern]]
+      : [['+', pattern], ['-', reverse]];
+
+    const hits: MotifHit[] = [];
+    for (const [strand, strandPattern] of patterns) {
+      const masks = [...strandPattern].map(base => [...IUPAC_BASES[base]].reduce((mask, b) => mask | BASE_MASKS[b], 0));
+      for (let i = 0; i < length && i + patternLength <= target.length; i++) {
+        let mismatches = 0;
+        for (let j = 0; j < patternLength; j++) {
+          if (!(codes[i + j] & masks[j]) && ++mismatches > options.maxMismatches) break;
+        }
+        if (mismatches > options.maxMismatches) continue;
+
+        const matched = target.substring(i, i + patternLength).toUpperCase();
+        hits.push({
+          start: i + 1,
+          end: i + patternLength,
+          strand,
+          mismatches,
+          matched: strand === '+' ? matched : reverseComplement(matched)
+        });
+        if (hits.length >= limit) {
+          return hits.sort((a, b) => a.start - b.start);
+        }
+      }
+    }
+
+    return hits.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * 在所有有碱基序列的序列上查找，结果放入匹配位点轨道，没有任何碱基序列时抛出错误
+   * 已有的匹配位点轨道清空后复用，保留其颜色、可见性和顺序
+   */
+  addTrack(genome: Genome, options: MotifSearchOptions): MotifSearchResult {
+    if (!genome.sequences.some((sequence: Sequence) => sequence.sequence)) {
+      throw new Error('No sequence data loaded');
+    }
+
+    let track: Track | undefined = genome.tracks.find((t: Track) => t.type === MotifSearch.TRACK_TYPE);
+    if (!track) {
+      track = new Track({
+        name: 'Motif Hits',
+        type: MotifSearch.TRACK_TYPE,
+        color: '#FF6F00',
+        visible: true,
+        height: 30,
+        features: []
+      });
+      genome.addTrack(track);
+    }
+    track.features = [];
+
+    let truncated = false;
+    for (const sequence of genome.sequences) {
+      if (!sequence.sequence) continue;
+
+      // 多取一个位点，用于判断是否超出上限
+      const remaining = MotifSearch.MAX_HITS - track.features.length;
+      const hits = this.find(sequence.sequence, options, sequence.circular, remaining + 1);
+      if (hits.length > remaining) {
+        hits.length = remaining;
+        truncated = true;
+      }
+      hits.forEach(hit => {
+        track!.addFeature(new Feature({
+          id: `motif_${sequence.id}_${hit.start}_${hit.strand === '-' ? 'minus' : 'plus'}`,
+          type: MotifSearch.TRACK_TYPE,
+          start: hit.start,
+          end: hit.end,
+          strand: hit.strand,
+          attributes: {
+            pattern: options.pattern.toUpperCase(),
+            matched: hit.matched,
+            mismatches: hit.mismatches.toString()
+          },
+          sequenceId: sequence.id
+        }));
+      });
+      if (truncated) break;
+    }
+
+    return { hits: track.features, truncated };
+  }
+}
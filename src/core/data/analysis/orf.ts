@@ -0,0 +1,195 @@
+// 六框 ORF 查找
+import { Genome } from '../models/genome';
+import { Sequence } from '../models/sequence';
+import { Feature } from '../models/feature';
+import { Track } from '../models/track';
+import { reverseComplement } from './utils';
+import type { ORFOptions, Strand } from '../../../types';
+
+/**
+ * 遗传密码表，只记录 ORF 查找需要的终止密码子
+ */
+export interface GeneticCode {
+  id: number;
+  name: string;
+  stops: string[];
+}
+
+/**
+ * NCBI 遗传密码表
+ */
+export const GENETIC_CODES: GeneticCode[] = [
+  { id: 1, name: 'Standard', stops: ['TAA', 'TAG', 'TGA'] },
+  { id: 2, name: 'Vertebrate Mitochondrial', stops: ['TAA', 'TAG', 'AGA', 'AGG'] },
+  { id: 3, name: 'Yeast Mitochondrial', stops: ['TAA', 'TAG'] },
+  { id: 4, name: 'Mold, Protozoan and Coelenterate Mitochondrial; Mycoplasma', stops: ['TAA', 'TAG'] },
+  { id: 5, name: 'Invertebrate Mitochondrial', stops: ['TAA', 'TAG'] },
+  { id: 6, name: 'Ciliate, Dasycladacean and Hexamita Nuclear', stops: ['TGA'] },
+  { id: 9, name: 'Echinoderm and Flatworm Mitochondrial', stops: ['TAA', 'TAG'] },
+  { id: 10, name: 'Euplotid Nuclear', stops: ['TAA', 'TAG'] },
+  { id: 11, name: 'Bacterial, Archaeal and Plant Plastid', stops: ['TAA', 'TAG', 'TGA'] },
+  { id: 12, name: 'Alternative Yeast Nuclear', stops: ['TAA', 'TAG', 'TGA'] },
+  { id: 13, name: 'Ascidian Mitochondrial', stops: ['TAA', 'TAG'] },
+  { id: 14, name: 'Alternative Flatworm Mitochondrial', stops: ['TAG'] },
+  { id: 16, name: 'Chlorophycean Mitochondrial', stops: ['TAA', 'TGA'] },
+  { id: 21, name: 'Trematode Mitochondrial', stops: ['TAA', 'TAG'] },
+  { id: 22, name: 'Scenedesmus obliquus Mitochondrial', stops: ['TCA', 'TAA', 'TGA'] },
+  { id: 23, name: 'Thraustochytrium Mitochondrial', stops: ['TTA', 'TAA', 'TAG', 'TGA'] },
+  { id: 24, name: 'Rhabdopleuridae Mitochondrial', stops: ['TAA', 'TAG'] },
+  { id: 25, name: 'Candidate Division SR1 and Gracilibacteria', stops: ['TAA', 'TAG'] }
+];
+
+/** 默认查找选项：细菌密码表，只以 ATG 起始，至少 100 个密码子 */
+export const DEFAULT_ORF_OPTIONS: ORFOptions = {
+  minLength: 300,
+  startCodons: ['ATG'],
+  geneticCode: 11
+};
+
+/**
+ * 一个开放阅读框，坐标为正链上从 1 开始的闭区间，包含终止密码子
+ */
+export interface ORF {
+  start: number;
+  end: number;
+  strand: Strand;
+  frame: string;
+}
+
+/**
+ * ORF 查找类
+ * 在每条序列的六个读框中查找以起始密码子开始、终止密码子结束的 ORF，
+ * 同一终止密码子之前只取最长的一个（即最靠前的起始密码子）
+ */
+export class ORFFinder {
+  /** ORF 轨道类型 */
+  static readonly TRACK_TYPE = 'orf';
+  /** 与注释 CDS 重叠的 ORF 使用轨道颜色，未被注释的 ORF 使用此颜色突出显示 */
+  static readonly UNANNOTATED_COLOR = '#E91E63';
+
+  /**
+   * 在一条序列的六个读框中查找 ORF
+   */
+  find(sequence: string, options: ORFOptions): ORF[] {
+    const code = GENETIC_CODES.find(c => c.id === options.geneticCode);
+    if (!code) {
+      throw new Error(`Unknown genetic code: ${options.geneticCode}`);
+    }
+    const stops = new Set(code.stops);
+    const starts = new Set(options.startCodons.map(codon => codon.toUpperCase()));
+    const length = sequence.length;
+
+    const orfs: ORF[] = [];
+    const strands: [Strand, string][] = [['+', sequence.toUpperCase()], ['-', reverseComplement(sequence)]];
+    strands.forEach(([strand, strandSequence]) => {
+      for (let offset = 0; offset < 3; offset++) {
+        const frame = `${strand}${offset + 1}`;
+        let orfStart = -1;
+        for (let i = offset; i + 3 <= length; i += 3) {
+          const codon = strandSequence.substring(i, i + 3);
+          if (orfStart < 0 && starts.has(codon)) {
+            orfStart = i;
+          } else if (stops.has(codon)) {
+            if (orfStart >= 0 && i + 3 - orfStart >= options.minLength) {
+              // 负链上的位置换算回正链坐标
+              orfs.push(strand === '+'
+                ? { start: orfStart + 1, end: i + 3, strand, frame }
+                : { start: length - i - 2, end: length - orfStart, strand, frame });
+            }
+            orfStart = -1;
+          }
+        }
+      }
+    });
+
+    return orfs.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * 为所有有碱基序列的序列查找 ORF，结果放入 ORF 轨道，没有任何碱基序列时抛出错误
+   * 已有的 ORF 轨道清空后复用，保留其颜色、可见性和顺序
+   */
+  addTrack(genome: Genome, options: ORFOptions): Track {
+    if (!genome.sequences.some((sequence: Sequence) => sequence.sequence)) {
+      throw new Error('No sequence data loaded');
+    }
+
+    let track: Track | undefined = genome.tracks.find((t: Track) => t.type === ORFFinder.TRACK_TYPE);
+    if (!track) {
+      track = new Track({
+        name: 'ORFs',
+        type: ORFFinder.TRACK_TYPE,
+        color: '#90A4AE',
+        visible: true,
+        height: 30,
+        features: []
+      });
+      genome.addTrack(track);
+    }
+    track.features = [];
+
+    genome.sequences.forEach((sequence: Sequence) => {
+      if (!sequence.sequence) return;
+
+      const overlapsCDS = this.createCDSIndex(genome, sequence);
+      this.find(sequence.sequence, options).forEach(orf => {
+        const annotated = overlapsCDS(orf.start, orf.end);
+        track!.addFeature(new Feature({
+          id: `orf_${sequence.id}_${orf.frame}_${orf.start}_${orf.end}`,
+          type: ORFFinder.TRACK_TYPE,
+          start: orf.start,
+          end: orf.end,
+          strand: orf.strand,
+          color: annotated ? undefined : ORFFinder.UNANNOTATED_COLOR,
+          attributes: { frame: orf.frame, annotated: annotated ? 'true' : 'false' },
+          sequenceId: sequence.id
+        }));
+      });
+    });
+
+    return track;
+  }
+
+  /**
+   * 建立一条序列上注释 CDS 的区间索引，返回判断区间是否与任一 CDS 重叠的函数
+   * CDS 按起点排序并记录前缀中的最大终点，二分查找最后一个起点不超过区间终点的 CDS
+   * 跨越原点的 CDS（end 大于序列长度）拆成原点前后两段分别索引
+   */
+  private createCDSIndex(genome: Genome, sequence: Sequence): (start: number, end: number) => boolean {
+    const intervals: { start: number; end: number }[] = [];
+    genome.tracks.forEach((track: Track) => {
+      if (track.type === ORFFinder.TRACK_TYPE) return;
+      track.features.forEach(feature => {
+        if (feature.type !== 'CDS' || feature.sequenceId !== sequence.id) return;
+        if (feature.end > sequence.length) {
+          intervals.push({ start: feature.start, end: sequence.length });
+          intervals.push({ start: 1, end: feature.end - sequence.length });
+        } else {
+          intervals.push({ start: feature.start, end: feature.end });
+        }
+      });
+    });
+    intervals.sort((a, b) => a.start - b.start);
+
+    const maxEnds: number[] = [];
+    intervals.forEach((interval, index) => {
+      maxEnds.push(index === 0 ? interval.end : Math.max(maxEnds[index - 1], interval.end));
+    });
+
+    return (start: number, end: number) => {
+      let low = 0;
+      let high = intervals.length - 1;
+      let last = -1;
+      while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (intervals[middle].start <= end) {
+          last = middle;
+          low = middle + 1;
+        } else {
+          high = middle - 1;
+        }
+      }
+      return last >= 0 && maxEnds[last] >= start;
+    };
+  }
+}
@@ -0,0 +1,241 @@
+// 限制性酶切位点分析
+import { Genome } from '../models/genome';
+import { Sequence } from '../models/sequence';
+import { Feature } from '../models/feature';
+import { Track } from '../models/track';
+import { reverseComplement, isIUPACSequence, iupacPattern } from './utils';
+import type { RestrictionEnzyme, RestrictionOptions, RestrictionDigest, Strand } from '../../../types';
+
+/**
+ * 内置的常用限制性内切酶，cut 为正链上切点距识别序列 5' 端的碱基数
+ */
+export const RESTRICTION_ENZYMES: RestrictionEnzyme[] = [
+  { name: 'AatII', site: 'GACGTC', cut: 5 },
+  { name: 'AccI', site: 'GTMKAC', cut: 2 },
+  { name: 'AflII', site: 'CTTAAG', cut: 1 },
+  { name: 'AgeI', site: 'ACCGGT', cut: 1 },
+  { name: 'ApaI', site: 'GGGCCC', cut: 5 },
+  { name: 'AscI', site: 'GGCGCGCC', cut: 2 },
+  { name: 'AseI', site: 'ATTAAT', cut: 2 },
+  { name: 'AvrII', site: 'CCTAGG', cut: 1 },
+  { name: 'BamHI', site: 'GGATCC', cut: 1 },
+  { name: 'BglII', site: 'AGATCT', cut: 1 },
+  { name: 'BsaI', site: 'GGTCTC', cut: 7 },
+  { name: 'BsmBI', site: 'CGTCTC', cut: 7 },
+  { name: 'BsrGI', site: 'TGTACA', cut: 1 },
+  { name: 'ClaI', site: 'ATCGAT', cut: 2 },
+  { name: 'DraI', site: 'TTTAAA', cut: 3 },
+  { name: 'EcoRI', site: 'GAATTC', cut: 1 },
+  { name: 'EcoRV', site: 'GATATC', cut: 3 },
+  { name: 'HincII', site: 'GTYRAC', cut: 3 },
+  { name: 'HindIII', site: 'AAGCTT', cut: 1 },
+  { name: 'KpnI', site: 'GGTACC', cut: 5 },
+  { name: 'MluI', site: 'ACGCGT', cut: 1 },
+  { name: 'NcoI', site: 'CCATGG', cut: 1 },
+  { name: 'NdeI', site: 'CATATG', cut: 2 },
+  { name: 'NheI', site: 'GCTAGC', cut: 1 },
+  { name: 'NotI', site: 'GCGGCCGC', cut: 2 },
+  { name: 'NsiI', site: 'ATGCAT', cut: 5 },
+  { name: 'PacI', site: 'TTAATTAA', cut: 5 },
+  { name: 'PstI', site: 'CTGCAG', cut: 5 },
+  { name: 'PvuI', site: 'CGATCG', cut: 4 },
+  { name: 'PvuII', site: 'CAGCTG', cut: 3 },
+  { name: 'SacI', site: 'GAGCTC', cut: 5 },
+  { name: 'SacII', site: 'CCGCGG', cut: 4 },
+  { name: 'SalI', site: 'GTCGAC', cut: 1 },
+  { name: 'SapI', site: 'GCTCTTC', cut: 8 },
+  { name: 'ScaI', site: 'AGTACT', cut: 3 },
+  { name: 'SfiI', site: 'GGCCNNNNNGGCC', cut: 8 },
+  { name: 'SmaI', site: 'CCCGGG', cut: 3 },
+  { name: 'SpeI', site: 'ACTAGT', cut: 1 },
+  { name: 'SphI', site: 'GCATGC', cut: 5 },
+  { name: 'StyI', site: 'CCWWGG', cut: 1 },
+  { name: 'XbaI', site: 'TCTAGA', cut: 1 },
+  { name: 'XhoI', site: 'CTCGAG', cut: 1 },
+  { name: 'XmaI', site: 'CCCGGG', cut: 1 }
+];
+
+/**
+ * 一个酶切位点，坐标为正链上从 1 开始的闭区间
+ * 回文识别序列只记录一次，链为 '.'；非回文识别序列在负链上的位点链为 '-'
+ */
+export interface RestrictionSite {
+  start: number;
+  end: number;
+  strand: Strand;
+  cut: number; // 切点位置，切在该碱基与下一个碱基之间
+}
+
+/**
+ * 解析 "G^AATTC" 形式的识别序列，^ 标记正链上的切点，省略时切点未知
+ * 识别序列不合法时抛出错误
+ */
+export function parseRestrictionSite(name: string, notation: string): RestrictionEnzyme {
+  const text = notation.trim().toUpperCase();
+  const caretIndex = text.indexOf('^');
+  const site = text.replace('^', '');
+  if (!name || !isIUPACSequence(site)) {
+    throw new Error(`Invalid recognition sequence for ${name || 'enzyme'}: ${notation}`);
+  }
+  return caretIndex >= 0 ? { name, site, cut: caretIndex } : { name, site };
+}
+
+/**
+ * 以 "G^AATTC" 形式显示识别序列，切点在识别序列之外时写在括号中
+ */
+export function formatRestrictionSite(enzyme: RestrictionEnzyme): string {
+  if (enzyme.cut === undefined) return enzyme.site;
+  if (enzyme.cut >= 0 && enzyme.cut <= enzyme.site.length) {
+    return `${enzyme.site.substring(0, enzyme.cut)}^${enzyme.site.substring(enzyme.cut)}`;
+  }
+  return `${enzyme.site} (cut ${enzyme.cut})`;
+}
+
+/**
+ * 限制性酶切位点分析类
+ * 在序列的两条链上查找内置酶和自定义酶的识别序列，统计每种酶的切点数，
+ * 并把选中的酶的切点放入酶切位点轨道
+ */
+export class RestrictionMapper {
+  /** 酶切位点轨道类型 */
+  static readonly TRACK_TYPE = 'restriction_site';
+
+  /**
+   * 合并内置酶和自定义酶，自定义酶与内置酶同名时替换内置酶
+   */
+  getEnzymes(customEnzymes: RestrictionEnzyme[]): RestrictionEnzyme[] {
+    const enzymes = new Map<string, RestrictionEnzyme>();
+    RESTRICTION_ENZYMES.forEach(enzyme => enzymes.set(enzyme.name, enzyme));
+    customEnzymes.forEach(enzyme => enzymes.set(enzyme.name, { ...enzyme, site: enzyme.site.toUpperCase() }));
+    return [...enzymes.values()];
+  }
+
+  /**
+   * 在一条序列上查找一种酶的所有位点
+   * 环状序列在末尾接上开头的碱基，以找到跨越原点的位点（end 大于序列长度）
+   */
+  findSites(sequence: string, enzyme: RestrictionEnzyme, circular: boolean = false): RestrictionSite[] {
+    const length = sequence.length;
+    const siteLength = enzyme.site.length;
+    if (siteLength === 0 || siteLength > length) return [];
+
+    const upper = sequence.toUpperCase();
+    const target = circular ? upper + upper.substring(0, siteLength - 1) : upper;
+    const site = enzyme.site.toUpperCase();
+    const reverse = reverseComplement(site);
+    // 回文识别序列两条链上的位点相同，只查找一次
+    const patterns: [Strand, string][] = reverse === site
+      ? [['.', site]]
+      : [['+', site], ['-', reverse]];
+
+    const sites: RestrictionSite[] = [];
+    patterns.forEach(([strand, pattern]) => {
+      // 零宽度前瞻匹配，允许位点互相重叠
+      const regex = new RegExp(`(?=${iupacPattern(pattern)})`, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(target)) !== null && match.index < length) {
+        const start = match.index + 1;
+        const end = match.index + siteLength;
+        sites.push({ start, end, strand, cut: this.cutPosition(start, end, strand, enzyme.cut, length, circular) });
+        regex.lastIndex = match.index + 1;
+      }
+    });
+
+    return sites.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * 统计每种酶在所有有碱基序列的序列上的切点数，没有任何碱基序列时抛出错误
+   */
+  digest(genome: Genome, customEnzymes: RestrictionEnzyme[]): RestrictionDigest[] {
+    const sequences = this.getSequences(genome);
+    return this.getEnzymes(customEnzymes).map(enzyme => ({
+      enzyme,
+      count: sequences.reduce((count, sequence) => count + this.findSites(sequence.sequence!, enzyme, sequence.circular).length, 0)
+    }));
+  }
+
+  /**
+   * 查找选中的酶的切点并放入酶切位点轨道，没有任何碱基序列时抛出错误
+   * 已有的酶切位点轨道清空后复用，保留其颜色、可见性和顺序
+   */
+  addTrack(genome: Genome, options: RestrictionOptions): Track {
+    const sequences = this.getSequences(genome);
+
+    let track: Track | undefined = genome.tracks.find((t: Track) => t.type === RestrictionMapper.TRACK_TYPE);
+    if (!track) {
+      track = new Track({
+        name: 'Restriction Sites',
+        type: RestrictionMapper.TRACK_TYPE,
+        color: '#6D4C41',
+        visible: true,
+        height: 30,
+        features: []
+      });
+      genome.addTrack(track);
+    }
+    track.features = [];
+
+    const selected = new Set(options.enzymes);
+    this.getEnzymes(options.customEnzymes)
+      .filter(enzyme => selected.has(enzyme.name))
+      .forEach(enzyme => {
+        const found = sequences.map(sequence => ({
+          sequence,
+          sites: this.findSites(sequence.sequence!, enzyme, sequence.circular)
+        }));
+        const count = found.reduce((total, item) => total + item.sites.length, 0);
+        found.forEach(({ sequence, sites }) => {
+          sites.forEach(site => {
+            track!.addFeature(new Feature({
+              id: `restriction_${enzyme.name}_${sequence.id}_${site.start}${site.strand === '-' ? '_minus' : ''}`,
+              type: RestrictionMapper.TRACK_TYPE,
+              start: site.cut,
+              end: site.cut,
+              strand: site.strand,
+              attributes: {
+                enzyme: enzyme.name,
+                site: formatRestrictionSite(enzyme),
+                site_start: site.start.toString(),
+                site_end: site.end.toString(),
+                cut_count: count.toString()
+              },
+              sequenceId: sequence.id
+            }));
+          });
+        });
+      });
+
+    track.features.sort((a, b) => a.start - b.start);
+    return track;
+  }
+
+  /**
+   * 获取有碱基序列的序列，没有时抛出错误
+   */
+  private getSequences(genome: Genome): Sequence[] {
+    const sequences = genome.sequences.filter((sequence: Sequence) => sequence.sequence);
+    if (sequences.length === 0) {
+      throw new Error('No sequence data loaded');
+    }
+    return sequences;
+  }
+
+  /**
+   * 计算位点在正链坐标上的切点，切点未知时取识别序列所在链的 5' 端
+   * 环状序列的切点按序列长度取模，线性序列的切点限制在序列范围内
+   */
+  private cutPosition(start: number, end: number, strand: Strand, cut: number | undefined, length: number, circular: boolean): number {
+    let position: number;
+    if (cut === undefined) {
+      position = strand === '-' ? end : start;
+    } else {
+      // 负链识别序列的 5' 端在正链坐标的 end 处
+      position = strand === '-' ? end - cut : start - 1 + cut;
+    }
+    if (circular) {
+      return ((position - 1) % length + length) % length + 1;
+    }
+    return Math.min(length, Math.max(1, position));
+  }
+}
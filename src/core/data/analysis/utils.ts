@@ -0,0 +1,46 @@
+// 序列分析工具函数
+
+/** 互补碱基，包括 IUPAC 简并碱基 */
+const COMPLEMENT: Record<string, string> = {
+  A: 'T', T: 'A', U: 'A', G: 'C', C: 'G',
+  R: 'Y', Y: 'R', S: 'S', W: 'W', K: 'M', M: 'K',
+  B: 'V', V: 'B', D: 'H', H: 'D', N: 'N'
+};
+
+/**
+ * 求反向互补序列，结果为大写，无法识别的字符记为 N
+ */
+export function reverseComplement(sequence: string): string {
+  const result: string[] = new Array(sequence.length);
+  for (let i = 0; i < sequence.length; i++) {
+    result[sequence.length - 1 - i] = COMPLEMENT[sequence[i].toUpperCase()] || 'N';
+  }
+  return result.join('');
+}
+
+/** IUPAC 碱基代码对应的碱基 */
+export const IUPAC_BASES: Record<string, string> = {
+  A: 'A', C: 'C', G: 'G', T: 'T', U: 'T',
+  R: 'AG', Y: 'CT', S: 'CG', W: 'AT', K: 'GT', M: 'AC',
+  B: 'CGT', D: 'AGT', H: 'ACT', V: 'ACG', N: 'ACGT'
+};
+
+/**
+ * 判断序列是否只由 IUPAC 碱基代码组成（不区分大小写）
+ */
+export function isIUPACSequence(sequence: string): boolean {
+  return sequence.length > 0 && [...sequence.toUpperCase()].every(base => base in IUPAC_BASES);
+}
+
+/**
+ * 把含 IUPAC 简并碱基的序列转换为正则表达式源码，用于在大写序列中查找
+ * 简并碱基只匹配其代表的确定碱基，序列中的 N 等未知碱基不会被匹配
+ */
+export function iupacPattern(sequence: string): string {
+  return [...sequence.toUpperCase()]
+    .map(base => {
+      const bases = IUPAC_BASES[base];
+      return bases.length === 1 ? bases : `[${bases}]`;
+    })
+    .join('');
+}
@@ -0,0 +1,104 @@
+// 项目包读写
+import JSZip from 'jszip';
+import { readFileText } from '../utils/gzip';
+import { Genome } from './models/genome';
+import { Track } from './models/track';
+import type { BundleManifest, BundleTrackSettings } from '../../types';
+
+/**
+ * 项目包类
+ * 项目包是一个 .zip 文件，包含 manifest.json 清单以及加载时使用的原始数据文件（GFF3、FASTA、BED 等），
+ * 清单中记录各文件的格式和轨道的颜色、可见性、顺序
+ */
+export class ProjectBundle {
+  /** 清单文件在包内的路径 */
+  static readonly MANIFEST_PATH = 'manifest.json';
+  /** 当前清单版本 */
+  static readonly VERSION = 1;
+
+  /**
+   * 读取项目包，返回清单和清单中引用的文件内容（按包内路径索引）
+   */
+  static async read(data: Blob | ArrayBuffer): Promise<{ manifest: BundleManifest; files: Map<string, string> }> {
+    const zip = await JSZip.loadAsync(data);
+
+    const manifestFile = zip.file(ProjectBundle.MANIFEST_PATH);
+    if (!manifestFile) {
+      throw new Error(`Bundle is missing ${ProjectBundle.MANIFEST_PATH}`);
+    }
+    const manifest: BundleManifest = JSON.parse(await manifestFile.async('string'));
+    if (!manifest.genome || !manifest.genome.path) {
+      throw new Error('Bundle manifest does not specify a genome file');
+    }
+
+    const files: Map<string, string> = new Map();
+    const paths = [manifest.genome, manifest.sequence, ...(manifest.tracks || [])]
+      .filter(entry => entry !== undefined)
+      .map(entry => entry.path);
+
+    for (const path of paths) {
+      const file = zip.file(path);
+      if (!file) {
+        throw new Error(`Bundle is missing file: ${path}`);
+      }
+      // 原始文件可能是 gzip 压缩的
+      files.set(path, await readFileText(new Blob([await file.async('uint8array') as BlobPart])));
+    }
+
+    return { manifest, files };
+  }
+
+  /**
+   * 生成项目包
+   * @param files 按包内路径索引的文件内容或文件对象
+   */
+  static async write(manifest: BundleManifest, files: Map<string, string | Blob>): Promise<Blob> {
+    const zip = new JSZip();
+    zip.file(ProjectBundle.MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+    files.forEach((content, path) => zip.file(path, content));
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  }
+
+  /**
+   * 记录基因组当前的轨道显示设置，按绘制顺序排列
+   */
+  static collectTrackSettings(genome: Genome): BundleTrackSettings[] {
+    return genome.tracks.map((track: Track) => ({
+      name: track.name,
+      type: track.type,
+      color: track.color,
+      visible: track.visible,
+      plot: track.plot ? { ...track.plot } : undefined
+    }));
+  }
+
+  /**
+   * 将保存的轨道显示设置应用到重新加载的基因组上
+   * 轨道 ID 每次加载都会重新生成，因此按类型和名称对应，同名轨道按出现顺序依次对应；
+   * 没有对应设置的轨道保持原有的相对顺序排在最后
+   */
+  static applyTrackSettings(genome: Genome, settings: BundleTrackSettings[]): void {
+    const key = (type: string, name: string) => `${type}\u0000${name}`;
+    const pending: Map<string, { setting: BundleTrackSettings; order: number }[]> = new Map();
+    settings.forEach((setting, order) => {
+      const entries = pending.get(key(setting.type, setting.name)) || [];
+      entries.push({ setting, order });
+      pending.set(key(setting.type, setting.name), entries);
+    });
+
+    const orders: Map<Track, number> = new Map();
+    genome.tracks.forEach((track: Track) => {
+      const entry = pending.get(key(track.type, track.name))?.shift();
+      if (!entry) return;
+
+      track.color = entry.setting.color;
+      track.visible = entry.setting.visible;
+      if (track.plot && entry.setting.plot) {
+        track.plot = { ...entry.setting.plot };
+      }
+      orders.set(track, entry.order);
+    });
+
+    genome.tracks.sort((a: Track, b: Track) => (orders.get(a) ?? Infinity) - (orders.get(b) ?? Infinity));
+  }
+}
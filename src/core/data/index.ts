@@ -3,7 +3,27 @@ import { Genome } from './models/genome';
 import { Sequence } from './models/sequence';
 import { Track } from './models/track';
 import { Feature } from './models/feature';
-import { GFF3Parser } from './parsers/gff3';
+import { GFF3Parser, GFF3ValidationError } from './parsers/gff3';
+import { GenBankParser } from './parsers/genbank';
+import { EMBLParser } from './parsers/embl';
+import { FastaParser } from './parsers/fasta';
+import { GTFParser } from './parsers/gtf';
+import { BedParser } from './parsers/bed';
+import { VcfParser } from './parsers/vcf';
+import { BlastParser } from './parsers/blast';
+import { BedGraphParser } from './parsers/bedgraph';
+import { WigParser } from './parsers/wig';
+import { TableParser } from './parsers/table';
+import type { FastaRecord } from './parsers/fasta';
+import { GC_TRACK_TYPES, TrackParser, defaultGCWindow } from './parsers/base';
+import { ProjectBundle } from './bundle';
+import { ORFFinder, GENETIC_CODES, DEFAULT_ORF_OPTIONS } from './analysis/orf';
+import { RestrictionMapper, RESTRICTION_ENZYMES, parseRestrictionSite, formatRestrictionSite } from './analysis/restriction';
+import { MotifSearch } from './analysis/motif';
+import { isIUPACSequence } from './analysis/utils';
+import { readFileText } from '../utils/gzip';
+import type { GFF3WorkerRequest, GFF3WorkerResponse } from './workers/gff3.worker';
+import type { TrackParseOptions, BundleManifest, GenomeLoadOptions, LoadProgress, GCWindowOptions, ORFOptions, RestrictionEnzyme, RestrictionOptions, RestrictionDigest, MotifSearchOptions, MotifSearchResult, Genome as GenomeType } from '../../types';
 
 /**
  * 数据管理类
@@ -11,25 +31,41 @@ import { GFF3Parser } from './parsers/gff3';
  */
 export class DataManager {
   private parsers: Map<string, any> = new Map();
+  private trackParsers: Map<string, TrackParser> = new Map();
+  private fastaParser = new FastaParser();
+  private orfFinder = new ORFFinder();
+  private restrictionMapper = new RestrictionMapper();
+  private motifSearch = new MotifSearch();
   
   constructor() {
     // 注册解析器
     this.parsers.set('gff3', new GFF3Parser());
+    this.registerParser('genbank', new GenBankParser());
+    this.registerParser('embl', new EMBLParser());
+    this.registerParser('fasta', this.fastaParser);
+    // GFF2 与 GTF 的属性写法相同，共用一个解析器
+    const gtfParser = new GTFParser();
+    this.registerParser('gtf', gtfParser);
+    this.registerParser('gff2', gtfParser);
+    
+    // 注册轨道解析器
+    this.registerTrackParser('bed', new BedParser());
+    this.registerTrackParser('vcf', new VcfParser());
+    this.registerTrackParser('blast', new BlastParser());
+    this.registerTrackParser('bedgraph', new BedGraphParser());
+    this.registerTrackParser('wig', new WigParser());
+    // 分隔符由 papaparse 自动识别，CSV 与 TSV 共用一个解析器
+    const tableParser = new TableParser();
+    this.registerTrackParser('csv', tableParser);
+    this.registerTrackParser('tsv', tableParser);
   }
   
   /**
    * 加载基因组数据
+   * GFF3 文件在 Worker 中流式解析，解析进度通过 options.onProgress 报告
+   * @param sequenceData 可选的 FASTA 序列文件，用于注释文件不含序列的情况
    */
-  async loadGenome(data: string | File, format: string = 'gff3'): Promise<Genome> {
-    let content: string;
-    
-    // 处理文件对象
-    if (data instanceof File) {
-      content = await this.readFile(data);
-    } else {
-      content = data;
-    }
-    
+  async loadGenome(data: string | File, format: string = 'gff3', sequenceData?: string | File, options: GenomeLoadOptions = {}): Promise<Genome> {
     // 选择解析器
     const parser = this.parsers.get(format.toLowerCase());
     if (!parser) {
@@ -37,26 +73,303 @@ export class DataManager {
     }
     
     // 解析数据
-    return parser.parse(content);
+    let genome: Genome;
+    if (format.toLowerCase() === 'gff3' && typeof Worker !== 'undefined') {
+      const blob = data instanceof File ? data : new Blob([data]);
+      genome = await this.parseGFF3InWorker(blob, options.onProgress, options.signal);
+    } else {
+      genome = parser.parse(await this.readContent(data));
+    }
+
+    // 建立 gene → mRNA → exon / CDS 的父子关系
+    genome.linkFeatureHierarchy();
+
+    // 附加单独提供的序列
+    if (sequenceData) {
+      await this.attachSequences(genome, sequenceData);
+    }
+    
+    return genome;
+  }
+  
+  /**
+   * 将 FASTA 序列按 seqid 附加到已有基因组，并重新计算 GC 轨道
+   * @returns 成功匹配的序列数量
+   */
+  async attachSequences(genome: Genome, data: string | File): Promise<number> {
+    const content = await this.readContent(data);
+    const records = this.fastaParser.parseRecords(content);
+    const usedRecords: Set<FastaRecord> = new Set();
+    let matchedCount = 0;
+    
+    genome.sequences.forEach((sequence: Sequence) => {
+      const record = this.findFastaRecord(sequence.id, records);
+      if (!record) {
+        console.warn(`No FASTA record found for sequence ${sequence.id}`);
+        return;
+      }
+      
+      sequence.sequence = record.sequence;
+      if (!sequence.length) {
+        sequence.length = record.sequence.length;
+        genome.length = Math.max(genome.length, sequence.length);
+      }
+      usedRecords.add(record);
+      matchedCount++;
+    });
+    
+    const unusedRecords = records.filter(record => !usedRecords.has(record));
+    if (unusedRecords.length > 0) {
+      console.warn('FASTA records without matching sequence:', unusedRecords.map(record => record.id));
+    }
+    
+    this.recalculateGCTracks(genome, true);
+    
+    return matchedCount;
+  }
+  
+  /**
+   * 修改 GC 轨道的窗口大小和步长，并立即重新计算 GC 轨道
+   * @param window 窗口设置，不传或窗口大小、步长不是正整数时按基因组长度自动选择
+   */
+  setGCWindow(genome: Genome, window?: GCWindowOptions): void {
+    // 步长不是正数时 GC 计算无法结束，来自项目包等外部的设置必须先检查
+    const isValid = (value: number) => Number.isInteger(value) && value > 0;
+    if (window && !(isValid(window.windowSize) && isValid(window.stepSize))) {
+      console.warn(`Invalid GC window ${JSON.stringify(window)}, using automatic window`);
+      window = undefined;
+    }
+    genome.gcWindow = window ? { windowSize: window.windowSize, stepSize: window.stepSize } : undefined;
+    this.recalculateGCTracks(genome, false);
+  }
+  
+  /**
+   * 获取当前使用的 GC 窗口设置
+   */
+  getGCWindow(genome: Genome): GCWindowOptions {
+    return genome.gcWindow || defaultGCWindow(genome.length);
+  }
+  
+  /**
+   * 在所有有碱基序列的序列的六个读框中查找 ORF，结果放入 ORF 轨道（已有时原地替换）
+   * 不与任何注释 CDS 重叠的 ORF 单独着色
+   */
+  findORFs(genome: Genome, options: ORFOptions): Track {
+    const track = this.orfFinder.addTrack(genome, options);
+    genome.orfOptions = { ...options, startCodons: [...options.startCodons] };
+    return track;
+  }
+  
+  /**
+   * 统计内置酶和自定义酶在所有有碱基序列的序列上的切点数，用于挑选单切、双切酶
+   */
+  digestRestrictionSites(genome: Genome, customEnzymes: RestrictionEnzyme[]): RestrictionDigest[] {
+    return this.restrictionMapper.digest(genome, customEnzymes);
+  }
+  
+  /**
+   * 把选中的酶的切点放入酶切位点轨道（已有时原地替换），没有选中任何酶时移除该轨道
+   * @returns 酶切位点轨道，轨道被移除时为 null
+   */
+  showRestrictionSites(genome: Genome, options: RestrictionOptions): Track | null {
+    if (options.enzymes.length === 0) {
+      const existing = genome.tracks.find((track: Track) => track.type === RestrictionMapper.TRACK_TYPE);
+      if (existing) {
+        genome.removeTrack(existing.id);
+      }
+      genome.restrictionOptions = undefined;
+      return null;
+    }
+    
+    const track = this.restrictionMapper.addTrack(genome, options);
+    genome.restrictionOptions = {
+      enzymes: [...options.enzymes],
+      customEnzymes: options.customEnzymes.map(enzyme => ({ ...enzyme }))
+    };
+    return track;
+  }
+  
+  /**
+   * 在所有有碱基序列的序列的两条链上查找序列基序或引物，结果放入临时的匹配位点轨道（已有时原地替换）
+   * 匹配位点轨道不随项目包保存
+   */
+  searchMotif(genome: Genome, options: MotifSearchOptions): MotifSearchResult {
+    return this.motifSearch.addTrack(genome, options);
+  }
+  
+  /**
+   * 移除匹配位点轨道
+   */
+  clearMotifSearch(genome: Genome): void {
+    const track = genome.tracks.find((t: Track) => t.type === MotifSearch.TRACK_TYPE);
+    if (track) {
+      genome.removeTrack(track.id);
+    }
+  }
+  
+  /**
+   * 使用所有已有序列数据重新计算 GC 轨道，已有轨道的显示设置保持不变
+   * @param deferred 是否在主线程空闲时再计算
+   */
+  private recalculateGCTracks(genome: Genome, deferred: boolean): void {
+    const sequences: Map<string, Sequence> = new Map();
+    const sequenceMap: Map<string, string> = new Map();
+    genome.sequences.forEach((sequence: Sequence) => {
+      if (sequence.sequence) {
+        sequences.set(sequence.id, sequence);
+        sequenceMap.set(sequence.id, sequence.sequence);
+      }
+    });
+    
+    this.fastaParser.addGCTracks(genome, sequences, sequenceMap, deferred);
+  }
+  
+  /**
+   * 加载附加轨道（如 BED、VCF），添加到已有基因组上
+   * @param name 默认轨道名称，通常为文件名
+   * @param options 格式相关的解析选项（如 CSV / TSV 的列对应关系）
+   * @returns 新添加的轨道
+   */
+  async loadTrack(genome: Genome, data: string | File, format: string, name?: string, options?: TrackParseOptions): Promise<Track[]> {
+    const content = await this.readContent(data);
+    
+    const parser = this.trackParsers.get(format.toLowerCase());
+    if (!parser) {
+      throw new Error(`Unsupported track format: ${format}`);
+    }
+    
+    const tracks = parser.parse(content, genome, name, options);
+    tracks.forEach(track => genome.addTrack(track));
+    
+    return tracks;
   }
   
   /**
-   * 读取文件内容
+   * 在 Worker 中流式解析 GFF3 文件，GC 轨道也在 Worker 中计算
+   * @param signal 取消时终止 Worker，Promise 以 AbortError 拒绝
    */
-  private readFile(file: File): Promise<string> {
+  private parseGFF3InWorker(data: Blob, onProgress?: (progress: LoadProgress) => void, signal?: AbortSignal): Promise<Genome> {
     return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        resolve(content);
+      if (signal?.aborted) {
+        reject(new DOMException('Genome loading cancelled', 'AbortError'));
+        return;
+      }
+      
+      const worker = new Worker(new URL('./workers/gff3.worker.ts', import.meta.url), { type: 'module' });
+      const cleanup = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', abort);
+      };
+      const abort = () => {
+        cleanup();
+        reject(new DOMException('Genome loading cancelled', 'AbortError'));
+      };
+      signal?.addEventListener('abort', abort);
+      
+      worker.onmessage = (event: MessageEvent<GFF3WorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress?.(message.progress);
+          return;
+        }
+        
+        cleanup();
+        if (message.type === 'done') {
+          const genome = this.restoreGenome(message.genome);
+          genome.validation = message.validation;
+          resolve(genome);
+        } else {
+          reject(message.validation ? new GFF3ValidationError(message.validation) : new Error(message.message));
+        }
       };
-      reader.onerror = () => {
-        reject(new Error('Failed to read file'));
+      worker.onerror = (event) => {
+        cleanup();
+        reject(new Error(event.message || 'GFF3 worker failed'));
       };
-      reader.readAsText(file);
+      
+      const request: GFF3WorkerRequest = { data };
+      worker.postMessage(request);
     });
   }
   
+  /**
+   * 将 Worker 传回的数据还原为 Genome，并把轨道中的特征重新关联到对应序列
+   */
+  private restoreGenome(data: GenomeType): Genome {
+    // 构造函数会将普通对象转换为模型实例
+    const genome = new Genome(data);
+    const sequences: Map<string, Sequence> = new Map(genome.sequences.map((sequence: Sequence) => [sequence.id, sequence]));
+    
+    genome.tracks.forEach((track: Track) => {
+      if (GC_TRACK_TYPES.includes(track.type)) return;
+      track.features.forEach((feature: Feature) => {
+        sequences.get(feature.sequenceId || '')?.addFeature(feature);
+      });
+    });
+    
+    return genome;
+  }
+  
+  /**
+   * 加载项目包：依次加载清单中的基因组、序列和附加轨道，再恢复轨道的颜色、可见性和顺序
+   * @returns 基因组、清单以及按包内路径索引的文件内容
+   */
+  async loadBundle(data: Blob | ArrayBuffer): Promise<{ genome: Genome; manifest: BundleManifest; files: Map<string, string> }> {
+    const { manifest, files } = await ProjectBundle.read(data);
+    
+    const sequenceContent = manifest.sequence ? files.get(manifest.sequence.path) : undefined;
+    const genome = await this.loadGenome(files.get(manifest.genome.path)!, manifest.genome.format, sequenceContent);
+    
+    for (const entry of manifest.tracks || []) {
+      await this.loadTrack(genome, files.get(entry.path)!, entry.format, entry.name, entry.options);
+    }
+    
+    // 重新生成由序列计算得到的轨道，再应用显示设置
+    if (manifest.view?.gcWindow) {
+      this.setGCWindow(genome, manifest.view.gcWindow);
+    }
+    if (manifest.view?.orf) {
+      this.findORFs(genome, manifest.view.orf);
+    }
+    if (manifest.view?.restriction) {
+      this.showRestrictionSites(genome, manifest.view.restriction);
+    }
+    
+    ProjectBundle.applyTrackSettings(genome, manifest.trackSettings || []);
+    
+    return { genome, manifest, files };
+  }
+  
+  /**
+   * 读取字符串或文件对象的文本内容
+   */
+  readContent(data: string | File): Promise<string> {
+    return data instanceof File ? this.readFile(data) : Promise.resolve(data);
+  }
+  
+  /**
+   * 按 seqid 查找对应的 FASTA 记录
+   * 依次尝试完全匹配、NCBI 风格的 "|" 分隔 ID 和忽略版本号的匹配
+   */
+  private findFastaRecord(sequenceId: string, records: FastaRecord[]): FastaRecord | undefined {
+    const stripVersion = (id: string) => id.replace(/\.\d+$/, '');
+    
+    return records.find(record => record.id === sequenceId) ||
+      records.find(record => record.id.split('|').includes(sequenceId)) ||
+      records.find(record => stripVersion(record.id) === stripVersion(sequenceId));
+  }
+  
+  /**
+   * 读取文件内容，gzip / bgzip 压缩的文件自动解压
+   */
+  private async readFile(file: File): Promise<string> {
+    try {
+      return await readFileText(file);
+    } catch (error) {
+      throw new Error(`Failed to read file: ${(error as Error).message}`);
+    }
+  }
+  
   /**
    * 注册自定义解析器
    */
@@ -64,13 +377,27 @@ export class DataManager {
     this.parsers.set(format.toLowerCase(), parser);
   }
   
+  /**
+   * 注册附加轨道解析器
+   */
+  registerTrackParser(format: string, parser: TrackParser): void {
+    this.trackParsers.set(format.toLowerCase(), parser);
+  }
+  
   /**
    * 获取支持的格式列表
    */
   getSupportedFormats(): string[] {
     return Array.from(this.parsers.keys());
   }
+  
+  /**
+   * 获取支持的附加轨道格式列表
+   */
+  getSupportedTrackFormats(): string[] {
+    return Array.from(this.trackParsers.keys());
+  }
 }
 
 // 导出模型和解析器
-export { Genome, Sequence, Track, Feature, GFF3Parser };
\ No newline at end of file
+export { Genome, Sequence, Track, Feature, GFF3Parser, GFF3ValidationError, GenBankParser, EMBLParser, FastaParser, GTFParser, BedParser, VcfParser, BlastParser, BedGraphParser, WigParser, TableParser, ProjectBundle, ORFFinder, GENETIC_CODES, DEFAULT_ORF_OPTIONS, RestrictionMapper, RESTRICTION_ENZYMES, parseRestrictionSite, formatRestrictionSite, MotifSearch, isIUPACSequence };
\ No newline at end of file
@@ -1,5 +1,5 @@
 // 特征模型
-import type { Feature as FeatureType, FeatureAttributes, Strand } from '../../../types';
+import type { Feature as FeatureType, FeatureAttributes, FeatureSegment, Strand } from '../../../types';
 
 /**
  * 特征类
@@ -14,9 +14,12 @@ export class Feature implements FeatureType {
   strand: Strand;
   attributes: FeatureAttributes;
   sequenceId?: string;
+  color?: string;
+  segments?: FeatureSegment[];
+  parents: Feature[] = []; // 父特征（如 mRNA 的 gene），由 Genome.linkFeatureHierarchy 建立
+  children: Feature[] = []; // 子特征（如 gene 的 mRNA、mRNA 的 exon / CDS）
 
   constructor(data: Partial<FeatureType>) {
-    this.id = data.id || this.generateId();
     this.name = data.name;
     this.type = data.type || 'CDS';
     this.start = data.start || 0;
@@ -24,27 +27,48 @@ export class Feature implements FeatureType {
     this.strand = data.strand || '.';
     this.attributes = data.attributes || {};
     this.sequenceId = data.sequenceId;
+    this.color = data.color;
+    this.segments = data.segments ? data.segments.map(segment => ({ ...segment })) : undefined;
 
     // 确保 start <= end
     if (this.start > this.end) {
       [this.start, this.end] = [this.end, this.start];
     }
+    this.id = data.id || this.generateId();
   }
 
   /**
-   * 生成唯一 ID
+   * 由序列、类型和坐标生成 ID，同一数据重新加载时保持不变
+   * 同一序列上类型和坐标相同的特征会得到相同的 ID，解析器应传入带行号的唯一 ID
    */
   private generateId(): string {
-    return `feature_${Date.now()}_${Math.floor(Math.random() * 10000)}`;
+    return `${this.sequenceId || 'feature'}_${this.type}_${this.start}_${this.end}`;
   }
 
   /**
-   * 获取特征长度
+   * 获取特征长度，不连续特征为各片段长度之和
    */
   getLength(): number {
+    if (this.segments) {
+      return this.segments.reduce((total, segment) => total + segment.end - segment.start + 1, 0);
+    }
     return this.end - this.start + 1;
   }
 
+  /**
+   * 添加一个片段，整体范围随之扩展
+   * 原本连续的特征先把自身范围作为第一个片段
+   */
+  addSegment(start: number, end: number): void {
+    if (!this.segments) {
+      this.segments = [{ start: this.start, end: this.end }];
+    }
+    this.segments.push({ start: Math.min(start, end), end: Math.max(start, end) });
+    this.segments.sort((a, b) => a.start - b.start);
+    this.start = this.segments[0].start;
+    this.end = Math.max(...this.segments.map(segment => segment.end));
+  }
+
   /**
    * 获取特征中心位置
    */
@@ -71,7 +95,9 @@ export class Feature implements FeatureType {
       end: this.end,
       strand: this.strand,
       attributes: { ...this.attributes },
-      sequenceId: this.sequenceId
+      sequenceId: this.sequenceId,
+      color: this.color,
+      segments: this.segments ? this.segments.map(segment => ({ ...segment })) : undefined
     };
   }
 
@@ -1,7 +1,8 @@
 // 基因组模型
-import type { Genome as GenomeType, Track, Sequence, Feature } from '../../../types';
+import type { Genome as GenomeType, Track, Sequence, Feature, ValidationReport, GCWindowOptions, ORFOptions, RestrictionOptions } from '../../../types';
 import { Track as TrackModel } from './track';
 import { Sequence as SequenceModel } from './sequence';
+import { GC_TRACK_TYPES } from '../parsers/base';
 
 /**
  * 基因组类
@@ -13,6 +14,10 @@ export class Genome implements GenomeType {
   sequences: any[];
   tracks: any[];
   length: number;
+  validation?: ValidationReport; // 解析时的校验报告（目前仅 GFF3），不参与序列化
+  gcWindow?: GCWindowOptions; // GC 轨道的窗口设置，未设置时按基因组长度自动选择
+  orfOptions?: ORFOptions; // 最近一次查找 ORF 使用的选项，未查找过时为空
+  restrictionOptions?: RestrictionOptions; // 当前显示的限制性酶切位点，未显示时为空
 
   constructor(data: Partial<GenomeType>) {
     this.id = data.id || this.generateId();
@@ -124,6 +129,96 @@ export class Genome implements GenomeType {
     return results;
   }
 
+  /**
+   * 按 GFF3 的 ID / Parent 属性建立特征之间的父子关系
+   * Parent 可以有多个值；找不到对应 ID 的 Parent 会被忽略
+   * 父特征按 feature.id 查找：解析器把多行共用同一 ID 的特征合并为一个特征，
+   * 重复的 ID 被重命名为 `${ID}_L${行号}`，因此子特征只关联到最先定义该 ID 的特征
+   */
+  linkFeatureHierarchy(): void {
+    const features: Feature[] = [];
+    this.tracks.forEach(track => {
+      // 由序列计算得到的 GC 相关轨道不包含注释特征
+      if (GC_TRACK_TYPES.includes(track.type)) return;
+      features.push(...track.features);
+    });
+
+    // 只有带 ID 属性的特征可以作为父特征
+    const featuresById: Map<string, Feature> = new Map();
+    features.forEach(feature => {
+      feature.parents = [];
+      feature.children = [];
+      const id = feature.attributes.ID;
+      if (typeof id === 'string' && id && !featuresById.has(feature.id)) {
+        featuresById.set(feature.id, feature);
+      }
+    });
+
+    features.forEach(feature => {
+      // GFF3 解析器将 Parent 解码为数组，其他格式可能是单个字符串
+      const parentIds = ([] as string[]).concat(feature.attributes.Parent || []);
+      parentIds.forEach(parentId => {
+        const parent = featuresById.get(parentId);
+        if (!parent || parent === feature) return;
+        feature.parents!.push(parent);
+        parent.children!.push(feature);
+      });
+    });
+  }
+
+  /**
+   * 获取特征的直接子特征
+   */
+  getChildren(feature: Feature): Feature[] {
+    return feature.children || [];
+  }
+
+  /**
+   * 获取特征的直接父特征
+   */
+  getParents(feature: Feature): Feature[] {
+    return feature.parents || [];
+  }
+
+  /**
+   * 获取特征的所有后代特征（如 gene 下的 mRNA、exon、CDS），按层级顺序排列
+   */
+  getDescendants(feature: Feature): Feature[] {
+    return this.walkHierarchy(feature, f => f.children || []);
+  }
+
+  /**
+   * 获取特征的所有祖先特征，由近到远排列
+   */
+  getAncestors(feature: Feature): Feature[] {
+    return this.walkHierarchy(feature, f => f.parents || []);
+  }
+
+  /**
+   * 获取特征所在层级的顶层特征（没有父特征的祖先），特征本身没有父特征时返回自身
+   */
+  getRoots(feature: Feature): Feature[] {
+    const roots = this.getAncestors(feature).filter(f => !f.parents || f.parents.length === 0);
+    return roots.length > 0 ? roots : [feature];
+  }
+
+  /**
+   * 广度优先遍历层级，已访问的特征不重复返回，避免错误数据中的循环引用
+   */
+  private walkHierarchy(feature: Feature, next: (feature: Feature) => Feature[]): Feature[] {
+    const visited: Set<Feature> = new Set([feature]);
+    const result: Feature[] = [];
+    const queue: Feature[] = [...next(feature)];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      result.push(current);
+      queue.push(...next(current));
+    }
+    return result;
+  }
+
   /**
    * 转换为 JSON
    */
@@ -11,12 +11,16 @@ export class Sequence implements SequenceType {
   name: string;
   length: number;
   features: FeatureModel[];
+  sequence?: string;
+  circular?: boolean;
 
   constructor(data: Partial<SequenceType>) {
     this.id = data.id || this.generateId();
     this.name = data.name || 'Unnamed Sequence';
     this.length = data.length || 0;
     this.features = data.features ? data.features.map(f => new FeatureModel(f)) : [];
+    this.sequence = data.sequence;
+    this.circular = data.circular;
   }
 
   /**
@@ -67,7 +71,9 @@ export class Sequence implements SequenceType {
       id: this.id,
       name: this.name,
       length: this.length,
-      features: this.features.map(f => f.toJSON())
+      features: this.features.map(f => f.toJSON()),
+      sequence: this.sequence,
+      circular: this.circular
     };
   }
 
@@ -1,5 +1,5 @@
 // 轨道模型
-import type { Track as TrackType } from '../../../types';
+import type { Track as TrackType, PlotOptions } from '../../../types';
 import { Feature as FeatureModel } from './feature';
 
 /**
@@ -14,6 +14,7 @@ export class Track implements TrackType {
   visible: boolean;
   height: number;
   features: FeatureModel[];
+  plot?: PlotOptions;
 
   constructor(data: Partial<TrackType>) {
     this.id = data.id || this.generateId();
@@ -23,6 +24,7 @@ export class Track implements TrackType {
     this.visible = data.visible !== false;
     this.height = data.height || 30;
     this.features = data.features ? data.features.map(f => new FeatureModel(f)) : [];
+    this.plot = data.plot ? { ...data.plot } : undefined;
   }
 
   /**
@@ -84,7 +86,8 @@ export class Track implements TrackType {
       color: this.color,
       visible: this.visible,
       height: this.height,
-      features: this.features.map(f => f.toJSON())
+      features: this.features.map(f => f.toJSON()),
+      plot: this.plot ? { ...this.plot } : undefined
     };
   }
 
@@ -0,0 +1,347 @@
+// 解析器基类
+import { Genome } from '../models/genome';
+import { Sequence } from '../models/sequence';
+import { Feature } from '../models/feature';
+import { Track } from '../models/track';
+import type { TrackParseOptions, GCWindowOptions, PlotOptions } from '../../../types';
+
+/** 绘制在专用 GC 含量 / GC 偏斜圆环中的轨道类型，其余 GC 相关轨道按定量轨道或点状轨道绘制 */
+export const GC_RING_TRACK_TYPES = ['gc_content', 'gc_skew_plus', 'gc_skew_minus'];
+
+/** GC 相关轨道类型，均由序列计算得到，修改窗口设置时一起重新计算 */
+export const GC_TRACK_TYPES = [...GC_RING_TRACK_TYPES, 'gc_skew_cumulative', 'at_skew', 'at_skew_cumulative', 'replication_prediction'];
+
+/** 累积偏斜轨道对应的单窗口偏斜类型 */
+const CUMULATIVE_SKEW_TYPES: Record<string, string> = {
+  gc_skew_cumulative: 'gc_skew',
+  at_skew_cumulative: 'at_skew'
+};
+
+/**
+ * 按基因组长度选择默认的 GC 窗口：整个基因组约 1000 个窗口，窗口大小取 1、2、5 × 10^n，
+ * 步长为窗口的一半；质粒等小基因组的窗口不小于 20 bp
+ */
+export function defaultGCWindow(genomeLength: number): GCWindowOptions {
+  const target = Math.max(20, genomeLength / 1000);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(target)));
+  const windowSize = [1, 2, 5, 10].map(factor => factor * magnitude).find(size => size >= target)!;
+  return { windowSize, stepSize: windowSize / 2 };
+}
+
+/**
+ * 解析器基类
+ * 提供各格式解析器共用的轨道创建和 GC 轨道计算逻辑
+ */
+export abstract class BaseParser {
+  /**
+   * 解析文件内容
+   */
+  abstract parse(content: string): Genome;
+
+  /**
+   * 验证文件格式
+   */
+  abstract validate(content: string): boolean;
+
+  /**
+   * 创建轨道
+   * @param deferGC 是否在主线程空闲时再计算 GC 轨道；在 Worker 中解析时直接计算
+   */
+  protected createTracks(genome: Genome, sequences: Map<string, Sequence>, featureTypes: Set<string>, sequenceData: Map<string, string>, deferGC: boolean = true): void {
+    // 为每种特征类型创建一个轨道
+    const colorMap: Record<string, string> = {
+      'CDS': '#800080',      // 紫色
+      'tRNA': '#FF8C00',      // 橙色
+      'rRNA': '#008000',      // 绿色
+      'misc_RNA': '#A52A2A',  // 棕色
+      'repeat_region': '#FFFF00', // 黄色
+      'tmRNA': '#00FFFF'      // 青色
+    };
+
+    featureTypes.forEach(type => {
+      const track = new Track({
+        name: type,
+        type: type,
+        color: colorMap[type] || '#607D8B', // 默认颜色
+        visible: true,
+        height: 30,
+        features: []
+      });
+
+      // 收集所有该类型的特征
+      sequences.forEach(sequence => {
+        sequence.features.forEach(feature => {
+          if (feature.type === type) {
+            track.addFeature(feature);
+          }
+        });
+      });
+
+      if (track.features.length > 0) {
+        genome.addTrack(track);
+      }
+    });
+
+    // 保存碱基序列，供后续附加序列和序列分析使用
+    sequences.forEach(sequence => {
+      const sequenceStr = sequenceData.get(sequence.id);
+      if (sequenceStr) {
+        sequence.sequence = sequenceStr;
+      }
+    });
+
+    // 添加 GC 相关轨道
+    this.addGCTracks(genome, sequences, sequenceData, deferGC);
+  }
+
+  /**
+   * 添加 GC 相关轨道
+   * 注释与序列分开加载或修改窗口设置时，由 DataManager 再次调用；基因组中已有的 GC 轨道会被重新计算，
+   * 保留其颜色、可见性和顺序
+   * @param deferred 是否通过 setTimeout 异步计算，避免阻塞主线程
+   */
+  addGCTracks(genome: Genome, sequences: Map<string, Sequence>, sequenceData: Map<string, string>, deferred: boolean = true): void {
+    // 只有当有序列数据时才计算 GC 轨道
+    if (sequenceData.size === 0) {
+      console.warn('No sequence data found, skipping GC track calculation');
+      return;
+    }
+
+    // 偏斜曲线按定量轨道绘制，数值范围在计算完成后按数据设置；AT 偏斜默认隐藏
+    const gcTracks: { name: string; type: string; color: string; visible?: boolean; plot?: PlotOptions }[] = [
+      { name: 'GC Content', type: 'gc_content', color: '#4CAF50' },
+      { name: 'GC Skew+', type: 'gc_skew_plus', color: '#2196F3' },
+      { name: 'GC Skew-', type: 'gc_skew_minus', color: '#F44336' },
+      { name: 'Cumulative GC Skew', type: 'gc_skew_cumulative', color: '#673AB7', plot: { style: 'line', min: -1, max: 1, baseline: 0 } },
+      { name: 'AT Skew', type: 'at_skew', color: '#FF9800', visible: false, plot: { style: 'bar', min: -1, max: 1, baseline: 0 } },
+      { name: 'Cumulative AT Skew', type: 'at_skew_cumulative', color: '#795548', visible: false, plot: { style: 'line', min: -1, max: 1, baseline: 0 } },
+      { name: 'Origin / Terminus', type: 'replication_prediction', color: '#E91E63' }
+    ];
+
+    // 为每个轨道创建空轨道（已有的轨道直接复用），然后异步填充数据
+    gcTracks.forEach(trackInfo => {
+      let track: Track | undefined = genome.tracks.find((t: Track) => t.type === trackInfo.type);
+      if (!track) {
+        track = new Track({
+          name: trackInfo.name,
+          type: trackInfo.type,
+          color: trackInfo.color,
+          visible: trackInfo.visible !== false,
+          height: 30,
+          features: [],
+          plot: trackInfo.plot
+        });
+
+        // 立即添加轨道到基因组
+        genome.addTrack(track);
+      }
+
+      // 复制起点 / 终点由累积 GC 偏斜推断，按轨道顺序排在其后计算
+      const gcTrack = track;
+      const calculate = trackInfo.type === 'replication_prediction'
+        ? () => this.calculateReplicationPrediction(gcTrack, genome)
+        : () => this.calculateGCTrackData(gcTrack, genome, sequences, sequenceData, trackInfo.type);
+      if (deferred) {
+        // 异步计算 GC 特征，避免阻塞主线程
+        setTimeout(calculate, 0);
+      } else {
+        calculate();
+      }
+    });
+  }
+
+  /**
+   * 计算 GC 轨道数据
+   * 每个特征覆盖一个步长的区间，数值按以该区间中心为中心的窗口计算，窗口在序列两端截断；
+   * 累积偏斜为每条序列从起点开始逐个区间累加的偏斜值。
+   * 窗口设置在计算时读取，异步计算期间修改设置也不会留下旧窗口的结果
+   */
+  private calculateGCTrackData(track: Track, genome: Genome, sequences: Map<string, Sequence>, sequenceData: Map<string, string>, trackType: string): void {
+    const { windowSize, stepSize } = genome.gcWindow || defaultGCWindow(genome.length);
+    track.features = [];
+
+    const cumulativeType = CUMULATIVE_SKEW_TYPES[trackType];
+
+    // 为每个序列生成 GC 相关特征
+    sequences.forEach(sequence => {
+      const sequenceStr = sequenceData.get(sequence.id);
+      if (!sequenceStr) return;
+
+      let cumulative = 0;
+      for (let start = 1; start <= sequence.length; start += stepSize) {
+        const end = Math.min(start + stepSize - 1, sequence.length);
+        const windowStart = Math.max(1, Math.floor((start + end - windowSize) / 2) + 1);
+        const windowEnd = Math.min(sequence.length, windowStart + windowSize - 1);
+
+        // 计算实际的 GC 值，累积偏斜按不重叠的区间累加
+        let value: number;
+        if (cumulativeType) {
+          cumulative += this.calculateGCValue(cumulativeType, sequenceStr, start - 1, end - 1);
+          value = cumulative;
+        } else {
+          value = this.calculateGCValue(trackType, sequenceStr, windowStart - 1, windowEnd - 1);
+        }
+
+        // 创建 GC 特征
+        const feature = new Feature({
+          id: `gc_${trackType}_${sequence.id}_${start}`,
+          name: `${track.name} ${start}-${end}`,
+          type: trackType,
+          start: start,
+          end: end,
+          strand: '.',
+          attributes: { value: value.toString() },
+          sequenceId: sequence.id
+        });
+
+        track.addFeature(feature);
+      }
+    });
+
+    if (track.plot) {
+      this.fitPlotRange(track);
+    }
+  }
+
+  /**
+   * 按计算结果设置偏斜曲线的数值范围，保留用户选择的绘图样式
+   * 有正有负的曲线以 0 为中心对称，便于比较两侧的幅度
+   */
+  private fitPlotRange(track: Track): void {
+    const values = track.features.map(feature => parseFloat(feature.attributes.value as string));
+    if (values.length === 0) return;
+
+    let min = values.reduce((a, b) => Math.min(a, b), Infinity);
+    let max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+    if (min < 0 && max > 0) {
+      max = Math.max(-min, max);
+      min = -max;
+    }
+    if (min === max) {
+      min -= 1;
+      max += 1;
+    }
+    track.plot = { ...track.plot!, min, max };
+  }
+
+  /**
+   * 按累积 GC 偏斜推断每条序列的复制起点（最小值）和终点（最大值）
+   */
+  private calculateReplicationPrediction(track: Track, genome: Genome): void {
+    track.features = [];
+    const cumulativeTrack: Track | undefined = genome.tracks.find((t: Track) => t.type === 'gc_skew_cumulative');
+    if (!cumulativeTrack) return;
+
+    const featuresBySequence: Map<string, Feature[]> = new Map();
+    cumulativeTrack.features.forEach(feature => {
+      const features = featuresBySequence.get(feature.sequenceId!) || [];
+      features.push(feature);
+      featuresBySequence.set(feature.sequenceId!, features);
+    });
+
+    featuresBySequence.forEach((features, sequenceId) => {
+      if (features.length < 2) return;
+
+      const value = (feature: Feature) => parseFloat(feature.attributes.value as string);
+      const minimum = features.reduce((a, b) => value(b) < value(a) ? b : a);
+      const maximum = features.reduce((a, b) => value(b) > value(a) ? b : a);
+
+      [
+        { feature: minimum, type: 'replication_origin', name: 'Predicted origin' },
+        { feature: maximum, type: 'replication_terminus', name: 'Predicted terminus' }
+      ].forEach(({ feature, type, name }) => {
+        const position = Math.round((feature.start + feature.end) / 2);
+        track.addFeature(new Feature({
+          id: `${type}_${sequenceId}`,
+          name: name,
+          type: type,
+          start: position,
+          end: position,
+          strand: '.',
+          attributes: { cumulative_gc_skew: value(feature).toFixed(4) },
+          sequenceId: sequenceId
+        }));
+      });
+    });
+  }
+
+  /**
+   * 计算 GC 相关值
+   */
+  private calculateGCValue(type: string, sequence: string, start: number, end: number): number {
+    const windowSequence = sequence.substring(start, end + 1);
+    const length = windowSequence.length;
+
+    if (length === 0) return 0;
+
+    let gCount = 0;
+    let cCount = 0;
+    let aCount = 0;
+    let tCount = 0;
+
+    // 统计碱基数量
+    for (const base of windowSequence) {
+      switch (base.toUpperCase()) {
+        case 'G': gCount++;
+          break;
+        case 'C': cCount++;
+          break;
+        case 'A': aCount++;
+          break;
+        case 'T': tCount++;
+          break;
+      }
+    }
+
+    switch (type) {
+      case 'gc_content':
+        // GC 含量 = (G + C) / 总碱基数 * 100
+        return ((gCount + cCount) / length) * 100;
+      case 'gc_skew_plus':
+        // GC Skew+ = (G - C) / (G + C) (正值部分)
+        const skew = (gCount - cCount) / (gCount + cCount || 1);
+        return Math.max(0, skew);
+      case 'gc_skew_minus':
+        // GC Skew- = (G - C) / (G + C) (负值部分)
+        const skewMinus = (gCount - cCount) / (gCount + cCount || 1);
+        return Math.min(0, skewMinus);
+      case 'gc_skew':
+        // GC Skew = (G - C) / (G + C)
+        return (gCount - cCount) / (gCount + cCount || 1);
+      case 'at_skew':
+        // AT Skew = (A - T) / (A + T)
+        return (aCount - tCount) / (aCount + tCount || 1);
+      default:
+        return 0;
+    }
+  }
+}
+
+/**
+ * 轨道解析器基类
+ * 用于 BED 等只描述区域的格式，解析结果作为新轨道添加到已加载的基因组上
+ */
+export abstract class TrackParser {
+  /**
+   * 解析文件内容，返回要添加到基因组的轨道
+   * @param name 默认轨道名称，通常为文件名
+   * @param options 格式相关的解析选项（如表格文件的列对应关系）
+   */
+  abstract parse(content: string, genome: Genome, name?: string, options?: TrackParseOptions): Track[];
+
+  /**
+   * 验证文件格式
+   */
+  abstract validate(content: string): boolean;
+
+  /**
+   * 将文件中的染色体名称对应到基因组中的序列 ID
+   * 依次尝试完全匹配和忽略版本号的匹配，找不到时返回 null
+   */
+  protected resolveSequenceId(genome: Genome, chrom: string): string | null {
+    const stripVersion = (id: string) => id.replace(/\.\d+$/, '');
+    const sequence = genome.sequences.find((s: Sequence) => s.id === chrom) ||
+      genome.sequences.find((s: Sequence) => stripVersion(s.id) === stripVersion(chrom));
+    return sequence ? sequence.id : null;
+  }
+}
@@ -0,0 +1,186 @@
+// BED 解析器
+import { Genome } from '../models/genome';
+import { Track } from '../models/track';
+import { Feature } from '../models/feature';
+import { TrackParser } from './base';
+import type { FeatureSegment, Strand } from '../../../types';
+
+/**
+ * BED 轨道定义行（track name=... color=...）中的设置
+ */
+interface BedTrackSettings {
+  name?: string;
+  color?: string;
+  itemRgb: boolean;
+}
+
+/**
+ * BED 解析器类
+ * 用于解析 BED3 ~ BED12 区域文件（基因组岛、前噬菌体预测等），
+ * 每个 track 定义行生成一个新轨道，添加到已加载的基因组上
+ */
+export class BedParser extends TrackParser {
+  /**
+   * 解析 BED 文件内容
+   */
+  parse(content: string, genome: Genome, name: string = 'BED'): Track[] {
+    const lines = content.split(/\r?\n/);
+    const tracks: Track[] = [];
+    const unknownChroms: Set<string> = new Set();
+
+    let settings: BedTrackSettings = { itemRgb: true };
+    let track: Track | null = null;
+
+    lines.forEach((line, index) => {
+      // 跳过注释行、浏览器设置行和空行
+      if (line.trim() === '' || line.startsWith('#') || line.startsWith('browser')) return;
+
+      // track 定义行开始一个新轨道
+      if (line.startsWith('track')) {
+        settings = this.parseTrackLine(line);
+        track = null;
+        return;
+      }
+
+      // BED 规范使用制表符分隔，部分工具输出为空格分隔
+      const parts = line.includes('\t') ? line.split('\t') : line.trim().split(/\s+/);
+      if (parts.length < 3) return;
+
+      const [chrom, startStr, endStr, featureName, score, strandStr, thickStart, thickEnd, itemRgb, blockCount, blockSizes, blockStarts] = parts;
+      const chromStart = parseInt(startStr);
+      const chromEnd = parseInt(endStr);
+      if (isNaN(chromStart) || isNaN(chromEnd)) return;
+
+      const sequenceId = this.resolveSequenceId(genome, chrom);
+      if (!sequenceId) {
+        unknownChroms.add(chrom);
+        return;
+      }
+
+      if (!track) {
+        const trackName = settings.name || (tracks.length > 0 ? `${name} ${tracks.length + 1}` : name);
+        track = new Track({
+          name: trackName,
+          type: 'bed',
+          color: settings.color || '#FF5722',
+          visible: true,
+          height: 30,
+          features: []
+        });
+        tracks.push(track);
+      }
+
+      // 可选列只保留文件中实际给出的值
+      const attributes: Record<string, string> = {};
+      const optionalColumns: [string, string | undefined][] = [
+        ['score', score],
+        ['thickStart', thickStart],
+        ['thickEnd', thickEnd],
+        ['itemRgb', itemRgb],
+        ['blockCount', blockCount],
+        ['blockSizes', blockSizes],
+        ['blockStarts', blockStarts]
+      ];
+      optionalColumns.forEach(([key, value]) => {
+        if (value !== undefined && value !== '' && value !== '.') {
+          attributes[key] = value.replace(/,$/, '');
+        }
+      });
+
+      const strand: Strand = strandStr === '+' || strandStr === '-' ? strandStr : '.';
+      const label = featureName && featureName !== '.' ? featureName : undefined;
+
+      // BED 坐标从 0 开始且为半开区间，转换为 1-based 闭区间
+      // BED12 的多个区块（如多个外显子）从第一个区块开始，其余区块作为片段添加
+      const blocks = this.parseBlocks(chromStart, blockCount, blockSizes, blockStarts);
+      const feature = new Feature({
+        id: `${track.name}_${index + 1}`,
+        name: label,
+        type: 'bed',
+        start: blocks.length > 1 ? blocks[0].start : chromStart + 1,
+        end: blocks.length > 1 ? blocks[0].end : chromEnd,
+        strand: strand,
+        attributes: attributes,
+        sequenceId: sequenceId,
+        color: settings.itemRgb ? this.parseRgb(itemRgb) : undefined
+      });
+      blocks.slice(1).forEach(block => feature.addSegment(block.start, block.end));
+      track.addFeature(feature);
+    });
+
+    if (unknownChroms.size > 0) {
+      console.warn('BED regions on sequences not in the genome were skipped:', Array.from(unknownChroms));
+    }
+
+    return tracks;
+  }
+
+  /**
+   * 解析 track 定义行
+   * 例如：track name="Genomic islands" color=255,0,0 itemRgb="On"
+   */
+  private parseTrackLine(line: string): BedTrackSettings {
+    const settings: BedTrackSettings = { itemRgb: true };
+    const pattern = /(\w+)=("([^"]*)"|'([^']*)'|\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(line)) !== null) {
+      const key = match[1];
+      const value = match[3] ?? match[4] ?? match[2];
+
+      if (key === 'name') {
+        settings.name = value;
+      } else if (key === 'color') {
+        settings.color = this.parseRgb(value);
+      } else if (key === 'itemRgb') {
+        settings.itemRgb = value.toLowerCase() !== 'off';
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * 解析 BED12 的区块，返回 1-based 闭区间；区块数与大小、起点列表不一致时返回空数组
+   */
+  private parseBlocks(chromStart: number, blockCount: string | undefined, blockSizes: string | undefined, blockStarts: string | undefined): FeatureSegment[] {
+    const count = parseInt(blockCount || '');
+    if (isNaN(count) || count < 1 || !blockSizes || !blockStarts) return [];
+
+    const sizes = blockSizes.replace(/,$/, '').split(',').map(size => parseInt(size));
+    const starts = blockStarts.replace(/,$/, '').split(',').map(start => parseInt(start));
+    if (sizes.length !== count || starts.length !== count || [...sizes, ...starts].some(value => isNaN(value) || value < 0)) {
+      return [];
+    }
+
+    return starts
+      .map((start, i) => ({ start: chromStart + start + 1, end: chromStart + start + sizes[i] }))
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * 将 "r,g,b" 转换为十六进制颜色
+   */
+  private parseRgb(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+
+    const channels = value.split(',').map(channel => parseInt(channel));
+    if (channels.length !== 3 || channels.some(channel => isNaN(channel) || channel < 0 || channel > 255)) {
+      return undefined;
+    }
+
+    return '#' + channels.map(channel => channel.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * 验证 BED 格式
+   */
+  validate(content: string): boolean {
+    const lines = content.trim().split(/\r?\n/);
+    const dataLine = lines.find(line => line.trim() && !/^(#|track|browser)/.test(line));
+    if (!dataLine) return false;
+
+    const parts = dataLine.includes('\t') ? dataLine.split('\t') : dataLine.trim().split(/\s+/);
+    return parts.length >= 3 && /^\d+$/.test(parts[1]) && /^\d+$/.test(parts[2]);
+  }
+}
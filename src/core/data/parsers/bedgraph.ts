@@ -0,0 +1,80 @@
+// bedGraph 解析器
+import { Genome } from '../models/genome';
+import { Track } from '../models/track';
+import { SignalParser } from './signal';
+import type { SignalTrackSettings } from './signal';
+
+/**
+ * bedGraph 解析器类
+ * 用于解析覆盖度、表达量、甲基化水平等 chrom/start/end/value 四列信号文件，
+ * 每个 track 定义行生成一个定量轨道
+ */
+export class BedGraphParser extends SignalParser {
+  /**
+   * 解析 bedGraph 文件内容
+   */
+  parse(content: string, genome: Genome, name: string = 'bedGraph'): Track[] {
+    const lines = content.split(/\r?\n/);
+    const tracks: { track: Track; settings: SignalTrackSettings }[] = [];
+    const unknownChroms: Set<string> = new Set();
+
+    let settings: SignalTrackSettings = {};
+    let current: { track: Track; settings: SignalTrackSettings } | null = null;
+
+    for (const line of lines) {
+      // 跳过注释行、浏览器设置行和空行
+      if (line.trim() === '' || line.startsWith('#') || line.startsWith('browser')) continue;
+
+      if (line.startsWith('track')) {
+        settings = this.parseTrackLine(line);
+        current = null;
+        continue;
+      }
+
+      const parts = line.includes('\t') ? line.split('\t') : line.trim().split(/\s+/);
+      if (parts.length < 4) continue;
+
+      const [chrom, startStr, endStr, valueStr] = parts;
+      const chromStart = parseInt(startStr);
+      const chromEnd = parseInt(endStr);
+      const value = parseFloat(valueStr);
+      if (isNaN(chromStart) || isNaN(chromEnd) || isNaN(value)) continue;
+
+      const sequenceId = this.resolveSequenceId(genome, chrom);
+      if (!sequenceId) {
+        unknownChroms.add(chrom);
+        continue;
+      }
+
+      if (!current) {
+        const trackName = tracks.length > 0 ? `${name} ${tracks.length + 1}` : name;
+        current = { track: this.createSignalTrack(trackName, settings), settings };
+        tracks.push(current);
+      }
+
+      // bedGraph 坐标从 0 开始且为半开区间，转换为 1-based 闭区间
+      current.track.addFeature(this.createSignalFeature(current.track, sequenceId, chromStart + 1, chromEnd, value));
+    }
+
+    if (unknownChroms.size > 0) {
+      console.warn('bedGraph intervals on sequences not in the genome were skipped:', Array.from(unknownChroms));
+    }
+
+    tracks.forEach(({ track, settings }) => this.finishSignalTrack(track, settings));
+
+    return tracks.map(({ track }) => track);
+  }
+
+  /**
+   * 验证 bedGraph 格式
+   */
+  validate(content: string): boolean {
+    if (/^track\s.*type=bedGraph/m.test(content)) return true;
+
+    const dataLine = content.split(/\r?\n/).find(line => line.trim() && !/^(#|track|browser)/.test(line));
+    if (!dataLine) return false;
+
+    const parts = dataLine.includes('\t') ? dataLine.split('\t') : dataLine.trim().split(/\s+/);
+    return parts.length === 4 && /^\d+$/.test(parts[1]) && /^\d+$/.test(parts[2]) && !isNaN(parseFloat(parts[3]));
+  }
+}
@@ -0,0 +1,195 @@
+// BLAST 表格结果解析器
+import { Genome } from '../models/genome';
+import { Track } from '../models/track';
+import { Feature } from '../models/feature';
+import { TrackParser } from './base';
+
+/**
+ * 一条 HSP 记录
+ */
+interface BlastHit {
+  query: string;
+  subject: string;
+  identity: number;
+  alignmentLength: string;
+  qstart: number;
+  qend: number;
+  sstart: number;
+  send: number;
+  evalue: string;
+  bitscore: string;
+}
+
+/**
+ * BLAST 解析器类
+ * 用于解析 outfmt 6 / 7 的比对结果，按 BRIG 的方式每个比对基因组（非参考一侧的序列 ID）生成一个圆环，
+ * HSP 按一致性百分比在浅色到轨道颜色之间渐变着色（由渲染器在绘制时计算）
+ */
+export class BlastParser extends TrackParser {
+  /** 各圆环依次使用的颜色 */
+  private static readonly RING_COLORS = ['#E53935', '#1E88E5', '#43A047', '#8E24AA', '#FB8C00', '#00ACC1'];
+
+  /** outfmt 7 "# Fields:" 行中的列名与 outfmt 6 默认列的对应关系 */
+  private static readonly FIELD_NAMES: Record<string, keyof BlastHit> = {
+    'query id': 'query',
+    'query acc.': 'query',
+    'query acc.ver': 'query',
+    'subject id': 'subject',
+    'subject acc.': 'subject',
+    'subject acc.ver': 'subject',
+    '% identity': 'identity',
+    'alignment length': 'alignmentLength',
+    'q. start': 'qstart',
+    'q. end': 'qend',
+    's. start': 'sstart',
+    's. end': 'send',
+    'evalue': 'evalue',
+    'bit score': 'bitscore'
+  };
+
+  /** outfmt 6 的默认列顺序 */
+  private static readonly DEFAULT_COLUMNS: (keyof BlastHit | null)[] = [
+    'query', 'subject', 'identity', 'alignmentLength', null, null, 'qstart', 'qend', 'sstart', 'send', 'evalue', 'bitscore'
+  ];
+
+  /**
+   * 解析 BLAST 表格结果
+   */
+  parse(content: string, genome: Genome, name: string = 'BLAST'): Track[] {
+    const hits = this.parseHits(content);
+    if (hits.length === 0) return [];
+
+    // 参考基因组可能是 query 也可能是 subject，以能对应到更多序列的一侧为准
+    const subjectMatches = hits.filter(hit => this.resolveSequenceId(genome, hit.subject)).length;
+    const queryMatches = hits.filter(hit => this.resolveSequenceId(genome, hit.query)).length;
+    const referenceIsSubject = subjectMatches >= queryMatches;
+
+    // 每个比对基因组（非参考一侧的序列）生成一个圆环
+    const tracks: Map<string, Track> = new Map();
+    const ringIndex = genome.tracks.filter((track: Track) => track.type === 'blast').length;
+    const comparedIds = new Set(hits.map(hit => referenceIsSubject ? hit.query : hit.subject));
+    const unknownSequences: Set<string> = new Set();
+
+    hits.forEach((hit, index) => {
+      const referenceId = referenceIsSubject ? hit.subject : hit.query;
+      const sequenceId = this.resolveSequenceId(genome, referenceId);
+      if (!sequenceId) {
+        unknownSequences.add(referenceId);
+        return;
+      }
+
+      const comparedId = referenceIsSubject ? hit.query : hit.subject;
+      let track = tracks.get(comparedId);
+      if (!track) {
+        track = new Track({
+          name: comparedIds.size > 1 ? `${name}: ${comparedId}` : name,
+          type: 'blast',
+          color: BlastParser.RING_COLORS[(ringIndex + tracks.size) % BlastParser.RING_COLORS.length],
+          visible: true,
+          height: 30,
+          features: []
+        });
+        tracks.set(comparedId, track);
+      }
+
+      const start = referenceIsSubject ? hit.sstart : hit.qstart;
+      const end = referenceIsSubject ? hit.send : hit.qend;
+      // 比对坐标反向表示比对到互补链
+      const reverse = (hit.sstart > hit.send) !== (hit.qstart > hit.qend);
+
+      // 颜色在绘制时按一致性由轨道颜色计算，不写入特征
+      track.addFeature(new Feature({
+        id: `${name}_hsp_${index + 1}`,
+        type: 'blast',
+        start: Math.min(start, end),
+        end: Math.max(start, end),
+        strand: reverse ? '-' : '+',
+        attributes: {
+          query: hit.query,
+          subject: hit.subject,
+          identity: hit.identity.toString(),
+          alignment_length: hit.alignmentLength,
+          query_range: `${hit.qstart}-${hit.qend}`,
+          subject_range: `${hit.sstart}-${hit.send}`,
+          evalue: hit.evalue,
+          bitscore: hit.bitscore
+        },
+        sequenceId: sequenceId
+      }));
+    });
+
+    if (unknownSequences.size > 0) {
+      console.warn('BLAST hits on sequences not in the reference were skipped:', Array.from(unknownSequences));
+    }
+
+    // 一致性高的 HSP 后绘制，重叠时显示在上层
+    tracks.forEach(track => {
+      track.features.sort((a, b) => parseFloat(a.attributes.identity as string) - parseFloat(b.attributes.identity as string));
+    });
+
+    return Array.from(tracks.values());
+  }
+
+  /**
+   * 解析 HSP 记录
+   */
+  private parseHits(content: string): BlastHit[] {
+    const hits: BlastHit[] = [];
+    let columns = BlastParser.DEFAULT_COLUMNS;
+
+    for (const line of content.split(/\r?\n/)) {
+      if (line.trim() === '') continue;
+
+      if (line.startsWith('#')) {
+        // outfmt 7 的 Fields 行给出实际的列顺序
+        const fieldsMatch = line.match(/^#\s*Fields:\s*(.+)$/);
+        if (fieldsMatch) {
+          columns = fieldsMatch[1].split(',').map(field => BlastParser.FIELD_NAMES[field.trim()] || null);
+        }
+        continue;
+      }
+
+      const parts = line.split('\t');
+      const values: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        if (column && parts[index] !== undefined) {
+          values[column] = parts[index].trim();
+        }
+      });
+
+      const hit: BlastHit = {
+        query: values.query,
+        subject: values.subject,
+        identity: parseFloat(values.identity),
+        alignmentLength: values.alignmentLength || '',
+        qstart: parseInt(values.qstart),
+        qend: parseInt(values.qend),
+        sstart: parseInt(values.sstart),
+        send: parseInt(values.send),
+        evalue: values.evalue || '',
+        bitscore: values.bitscore || ''
+      };
+
+      if (!hit.query || !hit.subject || [hit.identity, hit.qstart, hit.qend, hit.sstart, hit.send].some(isNaN)) {
+        continue;
+      }
+
+      hits.push(hit);
+    }
+
+    return hits;
+  }
+
+  /**
+   * 验证 BLAST 表格格式
+   */
+  validate(content: string): boolean {
+    if (/^#\s*BLAST/m.test(content)) return true;
+
+    const dataLine = content.split(/\r?\n/).find(line => line.trim() && !line.startsWith('#'));
+    if (!dataLine) return false;
+
+    const parts = dataLine.split('\t');
+    return parts.length >= 12 && !isNaN(parseFloat(parts[2])) && /^\d+$/.test(parts[6]);
+  }
+}
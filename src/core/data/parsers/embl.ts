@@ -0,0 +1,152 @@
+// EMBL 解析器
+import { Genome } from '../models/genome';
+import { Sequence } from '../models/sequence';
+import { FeatureTableParser } from './feature-table';
+
+/**
+ * EMBL 记录头信息
+ */
+interface EMBLRecord {
+  id: string;
+  length: number;
+  circular: boolean;
+  description: string;
+}
+
+/**
+ * EMBL 解析器类
+ * 用于解析 ENA 导出的 EMBL 平面文件（ID/FT/SQ），文件中的每条记录对应一个序列
+ */
+export class EMBLParser extends FeatureTableParser {
+  /**
+   * 解析 EMBL 文件内容
+   */
+  parse(content: string): Genome {
+    const lines = content.split(/\r?\n/);
+    const genome = new Genome({});
+    const sequences: Map<string, Sequence> = new Map();
+    const featureTypes: Set<string> = new Set();
+    const sequenceData: Map<string, string> = new Map();
+
+    let record: EMBLRecord | null = null;
+    let inSequence = false;
+    let featureLines: string[] = [];
+    let sequenceChunks: string[] = [];
+
+    // 完成当前记录，生成序列和特征
+    const finishRecord = () => {
+      if (!record) return;
+
+      const residues = sequenceChunks.join('');
+      const sequence = new Sequence({
+        id: record.id,
+        name: record.description || record.id,
+        length: record.length || residues.length,
+        circular: record.circular || undefined,
+        features: []
+      });
+
+      const entries = this.parseFeatureTable(featureLines);
+      entries.forEach((entry, index) => {
+        const feature = this.createFeature(entry, sequence, index);
+        if (feature) {
+          sequence.addFeature(feature);
+          featureTypes.add(feature.type);
+        }
+      });
+
+      if (residues) {
+        sequenceData.set(record.id, residues);
+      }
+
+      // 以第一条记录的描述作为基因组名称
+      if (sequences.size === 0 && record.description) {
+        genome.name = record.description;
+      }
+
+      sequences.set(record.id, sequence);
+      genome.addSequence(sequence);
+
+      record = null;
+      inSequence = false;
+      featureLines = [];
+      sequenceChunks = [];
+    };
+
+    for (const line of lines) {
+      // 序列数据行没有行标识，以空格开头
+      if (inSequence && line.startsWith(' ')) {
+        sequenceChunks.push(line.replace(/[^A-Za-z]/g, ''));
+        continue;
+      }
+
+      const code = line.substring(0, 2);
+
+      switch (code) {
+        case 'ID':
+          // 缺少 // 结束符时，开始新记录前先保存上一条记录
+          finishRecord();
+          record = this.parseIdLine(line);
+          break;
+        case '//':
+          finishRecord();
+          break;
+        case 'AC':
+          // 没有 ID 时使用第一个登录号
+          if (record && !record.id) {
+            record.id = line.substring(5).split(';')[0].trim();
+          }
+          break;
+        case 'DE':
+          if (record) {
+            const text = line.substring(5).trim();
+            record.description = record.description ? `${record.description} ${text}` : text;
+          }
+          break;
+        case 'FT':
+          // 去掉行标识后，特征表与 GenBank 的列布局一致
+          if (record) {
+            featureLines.push('  ' + line.substring(2));
+          }
+          break;
+        case 'SQ':
+          inSequence = record !== null;
+          break;
+      }
+    }
+
+    // 保存最后一条记录
+    finishRecord();
+
+    // 创建轨道
+    this.createTracks(genome, sequences, featureTypes, sequenceData);
+
+    return genome;
+  }
+
+  /**
+   * 解析 ID 行
+   * 例如：ID   X56734; SV 1; linear; mRNA; STD; PLN; 1859 BP.
+   */
+  private parseIdLine(line: string): EMBLRecord {
+    const fields = line.substring(5).split(';').map(field => field.trim());
+    const lengthMatch = line.match(/(\d+)\s+BP\./i);
+
+    return {
+      // 旧版 ID 行形如 "ID   X56734 standard; DNA; ..."，只取第一个词
+      id: fields[0].split(/\s+/)[0] || '',
+      length: lengthMatch ? parseInt(lengthMatch[1]) : 0,
+      // 拓扑结构为第三个字段，旧版 ID 行写作 "circular DNA"
+      circular: fields.slice(1).some(field => /^circular\b/i.test(field)),
+      description: ''
+    };
+  }
+
+  /**
+   * 验证 EMBL 格式
+   */
+  validate(content: string): boolean {
+    const text = content.trimStart();
+    return text.startsWith('ID   ') && (text.includes('\nFT   ') || text.includes('\nSQ   '));
+  }
+}
@@ -0,0 +1,96 @@
+// FASTA 解析器
+import { Genome } from '../models/genome';
+import { Sequence } from '../models/sequence';
+import { BaseParser } from './base';
+
+/**
+ * FASTA 记录
+ */
+export interface FastaRecord {
+  id: string;
+  description: string;
+  sequence: string;
+}
+
+/**
+ * FASTA 解析器类
+ * 用于解析不含注释的序列文件，生成只有网格、比例尺和 GC 轨道的序列图谱
+ */
+export class FastaParser extends BaseParser {
+  /**
+   * 解析 FASTA 文件内容
+   */
+  parse(content: string): Genome {
+    const records = this.parseRecords(content);
+    const genome = new Genome({});
+    const sequences: Map<string, Sequence> = new Map();
+    const sequenceData: Map<string, string> = new Map();
+
+    records.forEach(record => {
+      const sequence = new Sequence({
+        id: record.id,
+        name: record.description || record.id,
+        length: record.sequence.length,
+        features: []
+      });
+
+      sequences.set(record.id, sequence);
+      sequenceData.set(record.id, record.sequence);
+      genome.addSequence(sequence);
+    });
+
+    // 以第一条记录的描述作为基因组名称
+    if (records.length > 0) {
+      genome.name = records[0].description || records[0].id;
+    }
+
+    // 没有特征类型，只会创建 GC 轨道
+    this.createTracks(genome, sequences, new Set(), sequenceData);
+
+    return genome;
+  }
+
+  /**
+   * 解析 FASTA 记录
+   * 标题行中第一个词作为序列 ID，其余部分作为描述
+   */
+  parseRecords(content: string): FastaRecord[] {
+    const records: FastaRecord[] = [];
+    let current: FastaRecord | null = null;
+    let chunks: string[] = [];
+
+    for (const line of content.split(/\r?\n/)) {
+      if (line.startsWith('>')) {
+        if (current) {
+          current.sequence = chunks.join('');
+          records.push(current);
+        }
+        const header = line.substring(1).trim();
+        const spaceIndex = header.search(/\s/);
+        current = {
+          id: spaceIndex === -1 ? header : header.substring(0, spaceIndex),
+          description: spaceIndex === -1 ? '' : header.substring(spaceIndex + 1).trim(),
+          sequence: ''
+        };
+        chunks = [];
+      } else if (current && !line.startsWith(';')) {
+        chunks.push(line.replace(/\s+/g, ''));
+      }
+    }
+
+    // 保存最后一条记录
+    if (current) {
+      current.sequence = chunks.join('');
+      records.push(current);
+    }
+
+    return records;
+  }
+
+  /**
+   * 验证 FASTA 格式
+   */
+  validate(content: string): boolean {
+    return content.trimStart().startsWith('>');
+  }
+}
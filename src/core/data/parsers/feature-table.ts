@@ -0,0 +1,189 @@
+// INSDC 特征表解析器基类
+import { Feature } from '../models/feature';
+import { Sequence } from '../models/sequence';
+import { BaseParser } from './base';
+import type { FeatureSegment, Strand } from '../../../types';
+
+/**
+ * 特征表条目
+ */
+interface FeatureTableEntry {
+  key: string;
+  location: string;
+  qualifiers: { key: string; value: string }[];
+}
+
+/**
+ * INSDC 特征表解析器基类
+ * GenBank 与 EMBL 共用同一种特征表（特征键、位置和限定符）语法
+ */
+export abstract class FeatureTableParser extends BaseParser {
+  /** 特征表中特征键所在列 */
+  protected static readonly FEATURE_KEY_INDENT = 5;
+  /** 特征表中位置和限定符所在列 */
+  protected static readonly QUALIFIER_INDENT = 21;
+
+  /**
+   * 解析特征表
+   */
+  protected parseFeatureTable(lines: string[]): FeatureTableEntry[] {
+    const entries: FeatureTableEntry[] = [];
+    const keyPrefix = ' '.repeat(FeatureTableParser.FEATURE_KEY_INDENT);
+    let current: FeatureTableEntry | null = null;
+
+    for (const line of lines) {
+      if (line.trim() === '') continue;
+
+      // 新特征：第 6 列开始的特征键
+      if (line.startsWith(keyPrefix) && line[FeatureTableParser.FEATURE_KEY_INDENT] !== ' ') {
+        const [key, ...rest] = line.trim().split(/\s+/);
+        current = { key, location: rest.join(''), qualifiers: [] };
+        entries.push(current);
+        continue;
+      }
+
+      if (!current) continue;
+
+      const text = line.substring(FeatureTableParser.QUALIFIER_INDENT).trimEnd();
+
+      if (text.startsWith('/')) {
+        // 新限定符
+        const equalIndex = text.indexOf('=');
+        if (equalIndex === -1) {
+          current.qualifiers.push({ key: text.substring(1), value: '' });
+        } else {
+          current.qualifiers.push({
+            key: text.substring(1, equalIndex),
+            value: text.substring(equalIndex + 1)
+          });
+        }
+      } else if (current.qualifiers.length === 0) {
+        // 位置的续行
+        current.location += text.trim();
+      } else {
+        // 限定符值的续行，蛋白序列直接拼接，其余以空格连接
+        const qualifier = current.qualifiers[current.qualifiers.length - 1];
+        const separator = qualifier.key === 'translation' ? '' : ' ';
+        qualifier.value += separator + text.trim();
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * 将特征表条目转换为特征
+   */
+  protected createFeature(entry: FeatureTableEntry, sequence: Sequence, index: number): Feature | null {
+    // source 特征覆盖整条序列，只包含物种等元信息，不作为注释显示
+    if (entry.key === 'source') {
+      return null;
+    }
+
+    const sequenceId = sequence.id;
+    const location = this.parseLocation(entry.location, sequence.length, sequence.circular);
+    if (!location) {
+      return null;
+    }
+
+    const attributes = this.parseQualifiers(entry.qualifiers);
+    const name = attributes.gene || attributes.locus_tag || attributes.label;
+    const idBase = attributes.locus_tag || `${sequenceId}_${index + 1}`;
+
+    return new Feature({
+      id: `${entry.key}-${idBase}`,
+      name: name,
+      type: entry.key,
+      start: location.start,
+      end: location.end,
+      strand: location.strand,
+      segments: location.segments,
+      attributes: attributes,
+      sequenceId: sequenceId
+    });
+  }
+
+  /**
+   * 解析限定符
+   */
+  protected parseQualifiers(qualifiers: { key: string; value: string }[]): Record<string, string> {
+    const attributes: Record<string, string> = {};
+
+    for (const { key, value } of qualifiers) {
+      // 移除引号，并还原转义的双引号
+      const cleanValue = value.replace(/^"|"$/g, '').replace(/""/g, '"');
+      // 无值的限定符（如 /pseudo）记为 true
+      const finalValue = cleanValue === '' && value === '' ? 'true' : cleanValue;
+
+      // 重复的限定符（如 /db_xref）以逗号合并
+      attributes[key] = attributes[key] !== undefined ? `${attributes[key]},${finalValue}` : finalValue;
+    }
+
+    return attributes;
+  }
+
+  /**
+   * 解析特征位置
+   * 支持 123..456、complement()、join()、order()、<1..>200 和 123^124 等形式
+   * 多个区间的位置记录各个片段；环状序列上跨越原点的 join(4000..4500,1..100)
+   * 与 GFF3 一致，原点之后的片段加上序列长度，end 大于序列长度
+   */
+  protected parseLocation(
+    location: string,
+    sequenceLength: number = 0,
+    circular: boolean = false
+  ): { start: number; end: number; strand: Strand; segments?: FeatureSegment[] } | null {
+    const cleanLocation = location.replace(/\s+/g, '')
+      // 移除指向其他记录的远程位置（如 J00194.1:100..202）
+      .replace(/[A-Za-z][\w.]*:[<>]?\d+(?:\.\.[<>]?\d+)?/g, '');
+
+    const rangePattern = /[<>]?(\d+)(?:(?:\.\.|\^|\.)[<>]?(\d+))?/g;
+    const ranges: FeatureSegment[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = rangePattern.exec(cleanLocation)) !== null) {
+      const rangeStart = parseInt(match[1]);
+      const rangeEnd = match[2] ? parseInt(match[2]) : rangeStart;
+      ranges.push({ start: rangeStart, end: rangeEnd });
+    }
+
+    if (ranges.length === 0) {
+      return null;
+    }
+
+    const strand: Strand = cleanLocation.includes('complement(') ? '-' : '+';
+    const wraps = circular && sequenceLength > 0;
+    // join(complement(..),complement(..)) 按转录方向从后往前列出区间，先恢复为正链顺序
+    if (strand === '-' && !cleanLocation.startsWith('complement(')) {
+      ranges.reverse();
+    }
+
+    // 环状序列上区间回到前一个区间之前，说明跨越了原点，此后的区间都加上序列长度
+    let offset = 0;
+    let previousStart = 0;
+    const segments = ranges.map(range => {
+      if (wraps && range.start < previousStart) {
+        offset += sequenceLength;
+      }
+      previousStart = range.start;
+      const start = range.start + offset;
+      let end = range.end + offset;
+      // 单个区间写成 4000..100 的形式同样表示跨越原点
+      if (wraps && range.end < range.start) {
+        end += sequenceLength;
+      }
+      return { start: Math.min(start, end), end: Math.max(start, end) };
+    });
+
+    segments.sort((a, b) => a.start - b.start);
+    const start = segments[0].start;
+    const end = segments.reduce((maxEnd, segment) => Math.max(maxEnd, segment.end), -Infinity);
+
+    return {
+      start,
+      end,
+      strand,
+      segments: segments.length > 1 ? segments : undefined
+    };
+  }
+}
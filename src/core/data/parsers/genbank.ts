@@ -0,0 +1,163 @@
+// GenBank 解析器
+import { Genome } from '../models/genome';
+import { Sequence } from '../models/sequence';
+import { FeatureTableParser } from './feature-table';
+
+/**
+ * GenBank 记录头信息
+ */
+interface GenBankRecord {
+  id: string;
+  length: number;
+  circular: boolean;
+  definition: string;
+}
+
+/**
+ * GenBank 解析器类
+ * 用于解析 NCBI / Prokka 输出的 GenBank 平面文件（LOCUS/FEATURES/ORIGIN）
+ */
+export class GenBankParser extends FeatureTableParser {
+  /**
+   * 解析 GenBank 文件内容
+   */
+  parse(content: string): Genome {
+    const lines = content.split(/\r?\n/);
+    const genome = new Genome({});
+    const sequences: Map<string, Sequence> = new Map();
+    const featureTypes: Set<string> = new Set();
+    const sequenceData: Map<string, string> = new Map();
+
+    let record: GenBankRecord | null = null;
+    let section: 'header' | 'features' | 'origin' = 'header';
+    let lastHeaderKey = '';
+    let featureLines: string[] = [];
+    let sequenceChunks: string[] = [];
+
+    // 完成当前记录，生成序列和特征
+    const finishRecord = () => {
+      if (!record) return;
+
+      const residues = sequenceChunks.join('');
+      const sequence = new Sequence({
+        id: record.id,
+        name: record.definition || record.id,
+        length: record.length || residues.length,
+        circular: record.circular || undefined,
+        features: []
+      });
+
+      const entries = this.parseFeatureTable(featureLines);
+      entries.forEach((entry, index) => {
+        const feature = this.createFeature(entry, sequence, index);
+        if (feature) {
+          sequence.addFeature(feature);
+          featureTypes.add(feature.type);
+        }
+      });
+
+      if (residues) {
+        sequenceData.set(record.id, residues);
+      }
+
+      // 以第一条记录的描述作为基因组名称
+      if (sequences.size === 0 && record.definition) {
+        genome.name = record.definition;
+      }
+
+      sequences.set(record.id, sequence);
+      genome.addSequence(sequence);
+
+      record = null;
+      featureLines = [];
+      sequenceChunks = [];
+    };
+
+    for (const line of lines) {
+      if (line.startsWith('LOCUS')) {
+        // 缺少 // 结束符时，开始新记录前先保存上一条记录
+        finishRecord();
+        record = this.parseLocusLine(line);
+        section = 'header';
+        lastHeaderKey = 'LOCUS';
+        continue;
+      }
+
+      if (!record) continue;
+
+      if (line.startsWith('//')) {
+        finishRecord();
+        section = 'header';
+        continue;
+      }
+
+      if (line.startsWith('FEATURES')) {
+        section = 'features';
+        continue;
+      }
+
+      if (line.startsWith('ORIGIN')) {
+        section = 'origin';
+        continue;
+      }
+
+      // 顶格的关键字（如 CONTIG、BASE COUNT）表示特征表结束
+      if (/^[A-Z]/.test(line)) {
+        section = 'header';
+        lastHeaderKey = line.split(/\s+/)[0];
+        if (lastHeaderKey === 'DEFINITION') {
+          record.definition = line.substring(12).trim();
+        } else if (lastHeaderKey === 'VERSION' && !record.id) {
+          record.id = line.substring(12).trim().split(/\s+/)[0];
+        }
+        continue;
+      }
+
+      switch (section) {
+        case 'features':
+          featureLines.push(line);
+          break;
+        case 'origin':
+          sequenceChunks.push(line.replace(/[^A-Za-z]/g, ''));
+          break;
+        default:
+          // DEFINITION 的续行
+          if (lastHeaderKey === 'DEFINITION' && line.trim()) {
+            record.definition += ' ' + line.trim();
+          }
+      }
+    }
+
+    // 保存最后一条记录
+    finishRecord();
+
+    // 创建轨道
+    this.createTracks(genome, sequences, featureTypes, sequenceData);
+
+    return genome;
+  }
+
+  /**
+   * 解析 LOCUS 行
+   * 例如：LOCUS       pUC19        2686 bp    DNA     circular SYN 01-JAN-2000
+   */
+  private parseLocusLine(line: string): GenBankRecord {
+    const parts = line.split(/\s+/);
+    const lengthMatch = line.match(/(\d+)\s+(bp|aa)/);
+
+    return {
+      id: parts[1] || '',
+      length: lengthMatch ? parseInt(lengthMatch[1]) : 0,
+      circular: parts.slice(2).includes('circular'),
+      definition: ''
+    };
+  }
+
+  /**
+   * 验证 GenBank 格式
+   */
+  validate(content: string): boolean {
+    const text = content.trimStart();
+    return text.startsWith('LOCUS') && (text.includes('\nFEATURES') || text.includes('\nORIGIN'));
+  }
+}
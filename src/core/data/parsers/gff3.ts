@@ -2,339 +2,427 @@
 import { Genome } from '../models/genome';
 import { Sequence } from '../models/sequence';
 import { Feature } from '../models/feature';
-import { Track } from '../models/track';
+import { BaseParser } from './base';
+import type { FeatureAttributes, ValidationReport } from '../../../types';
+
+/**
+ * GFF3 规范中以逗号分隔多个值的预定义属性，解码为数组
+ * Note 是自由文本，其中的逗号属于句子本身，不拆分
+ */
+const MULTI_VALUE_ATTRIBUTES = ['Parent', 'Alias', 'Dbxref', 'Ontology_term'];
+
+/**
+ * 解码 GFF3 中的 %XX 转义字符
+ * 连续的转义序列一起解码，以支持 UTF-8 多字节字符；无法解码的序列保持原样
+ */
+export function unescapeGFF3(value: string): string {
+  return value.replace(/(%[0-9A-Fa-f]{2})+/g, escaped => {
+    try {
+      return decodeURIComponent(escaped);
+    } catch {
+      return escaped;
+    }
+  });
+}
+
+/**
+ * GFF3 第 7 列允许的链方向，"?" 表示方向未知
+ */
+const VALID_STRANDS = ['+', '-', '.', '?'];
+
+/**
+ * GFF3 文件中没有可加载的特征时抛出，携带完整的校验报告
+ */
+export class GFF3ValidationError extends Error {
+  report: ValidationReport;
+
+  constructor(report: ValidationReport) {
+    super(`GFF3 file contains no valid features (${report.errors.length} error(s))`);
+    this.name = 'GFF3ValidationError';
+    this.report = report;
+  }
+}
+
+/**
+ * GFF3 增量解析状态
+ * 文件按块读入时，跨块的不完整行保存在 remainder 中，留到下一块拼接
+ */
+export interface GFF3ParseState {
+  genome: Genome;
+  sequences: Map<string, Sequence>;
+  featureTypes: Set<string>;
+  sequenceData: Map<string, string>;
+  inFastaSection: boolean;
+  currentSequenceId: string;
+  currentSequence: string[];
+  remainder: string;
+  featureCount: number; // 已解析的特征数量，用于报告进度
+  lineNumber: number; // 当前行号，用于校验报告
+  report: ValidationReport;
+  featureIds: Map<string, { feature: Feature; line: number }>; // 每个 ID 对应的特征及首次出现的位置
+  parentReferences: { parentId: string; line: number }[]; // Parent 可以引用后面才出现的 ID，解析结束后再检查
+  inferredSequences: Map<string, { line: number; regionEnd: number; maxEnd: number }>; // 没有 ##sequence-region、按需创建的序列，长度在解析结束时推断
+}
 
 /**
  * GFF3 解析器类
  * 用于解析 GFF3 格式的基因组注释文件
+ * 大文件在 Worker 中通过 createState / parseChunk / finishParse 按块解析
  */
-export class GFF3Parser {
+export class GFF3Parser extends BaseParser {
   /**
    * 解析 GFF3 文件内容
    */
   parse(content: string): Genome {
-    const lines = content.trim().split('\n');
-    const genome = new Genome({});
-    const sequences: Map<string, Sequence> = new Map();
-    const featureTypes: Set<string> = new Set();
-    const sequenceData: Map<string, string> = new Map();
-    
-    // 解析每一行
-    let inFastaSection = false;
-    let currentSequenceId = '';
-    let currentSequence = '';
+    const state = this.createState();
+    this.parseChunk(state, content);
+    return this.finishParse(state);
+  }
+  
+  /**
+   * 创建增量解析状态
+   */
+  createState(): GFF3ParseState {
+    return {
+      genome: new Genome({}),
+      sequences: new Map(),
+      featureTypes: new Set(),
+      sequenceData: new Map(),
+      inFastaSection: false,
+      currentSequenceId: '',
+      currentSequence: [],
+      remainder: '',
+      featureCount: 0,
+      lineNumber: 0,
+      report: { errors: [], warnings: [] },
+      featureIds: new Map(),
+      parentReferences: [],
+      inferredSequences: new Map()
+    };
+  }
+  
+  /**
+   * 解析一块文件内容，最后一行可能不完整，保留到下一块
+   */
+  parseChunk(state: GFF3ParseState, chunk: string): void {
+    const lines = (state.remainder + chunk).split(/\r?\n/);
+    state.remainder = lines.pop() || '';
     
     for (const line of lines) {
-      // 检查是否进入FASTA部分
-      if (line.startsWith('##FASTA')) {
-        inFastaSection = true;
-        continue;
-      }
-      
-      // 解析FASTA序列
-      if (inFastaSection) {
-        if (line.startsWith('>')) {
-          // 保存之前的序列
-          if (currentSequenceId && currentSequence) {
-            sequenceData.set(currentSequenceId, currentSequence);
-          }
-          // 开始新序列
-          currentSequenceId = line.substring(1).trim();
-          currentSequence = '';
-        } else if (currentSequenceId) {
-          currentSequence += line.trim();
-        }
-        continue;
-      }
-      
-      // 跳过注释行和空行
-      if (line.startsWith('#') || line.trim() === '') {
-        // 解析序列区域定义
-        if (line.startsWith('##sequence-region')) {
-          this.parseSequenceRegion(line, sequences, genome);
-        }
-        continue;
+      this.parseLine(state, line);
+    }
+  }
+  
+  /**
+   * 结束解析，处理剩余内容并创建轨道
+   * 校验报告保存在 genome.validation 中；文件中没有任何可加载的特征时抛出 GFF3ValidationError
+   * @param deferGC 是否在主线程空闲时再计算 GC 轨道；在 Worker 中解析时直接计算
+   */
+  finishParse(state: GFF3ParseState, deferGC: boolean = true): Genome {
+    this.completeReport(state);
+    state.genome.validation = state.report;
+    if (state.featureCount === 0 && state.report.errors.length > 0) {
+      throw new GFF3ValidationError(state.report);
+    }
+    
+    // 创建轨道
+    this.createTracks(state.genome, state.sequences, state.featureTypes, state.sequenceData, deferGC);
+    
+    return state.genome;
+  }
+  
+  /**
+   * 处理剩余内容，补充只有读完整个文件才能判断的问题，并按行号排序
+   */
+  private completeReport(state: GFF3ParseState): void {
+    if (state.remainder) {
+      this.parseLine(state, state.remainder);
+      state.remainder = '';
+    }
+    
+    // 保存最后一个FASTA序列
+    if (state.currentSequenceId && state.currentSequence.length > 0) {
+      state.sequenceData.set(state.currentSequenceId, state.currentSequence.join(''));
+      state.currentSequence = [];
+    }
+    
+    // 推断按需创建的序列的长度：优先使用 FASTA 部分，其次是 region 特征，最后是特征的最大结束位置
+    state.inferredSequences.forEach(({ line, regionEnd, maxEnd }, sequenceId) => {
+      const sequence = state.sequences.get(sequenceId)!;
+      const fastaLength = state.sequenceData.get(sequenceId)?.length || 0;
+      const [length, source] = fastaLength > 0 ? [fastaLength, 'the FASTA section']
+        : regionEnd > 0 ? [regionEnd, 'a region feature']
+        : [maxEnd, 'the maximum feature end'];
+      sequence.length = length;
+      state.genome.length = Math.max(state.genome.length, length);
+      state.report.warnings.push({ line, message: `Sequence '${sequenceId}' has no ##sequence-region directive; length ${length} taken from ${source}` });
+    });
+    state.inferredSequences.clear();
+    
+    state.parentReferences.forEach(({ parentId, line }) => {
+      if (!state.featureIds.has(parentId)) {
+        state.report.warnings.push({ line, message: `Parent '${parentId}' does not match any feature ID` });
       }
-      
-      // 解析特征行
-      const feature = this.parseFeatureLine(line);
-      if (feature) {
-        // 添加特征到对应的序列
-        if (feature.sequenceId) {
-          const sequence = sequences.get(feature.sequenceId);
-          if (sequence) {
-            sequence.addFeature(feature);
-          }
+    });
+    state.parentReferences = [];
+    
+    state.report.errors.sort((a, b) => a.line - b.line);
+    state.report.warnings.sort((a, b) => a.line - b.line);
+  }
+  
+  /**
+   * 解析一行内容
+   */
+  private parseLine(state: GFF3ParseState, line: string): void {
+    state.lineNumber++;
+    if (state.lineNumber === 1 && !line.startsWith('##gff-version 3')) {
+      state.report.warnings.push({ line: 1, message: 'Missing ##gff-version 3 header' });
+    }
+    
+    // 检查是否进入FASTA部分
+    if (line.startsWith('##FASTA')) {
+      state.inFastaSection = true;
+      return;
+    }
+    
+    // 解析FASTA序列
+    if (state.inFastaSection) {
+      if (line.startsWith('>')) {
+        // 保存之前的序列
+        if (state.currentSequenceId && state.currentSequence.length > 0) {
+          state.sequenceData.set(state.currentSequenceId, state.currentSequence.join(''));
         }
-        
-        // 记录特征类型
-        featureTypes.add(feature.type);
+        // 开始新序列
+        // 标题行中 ID 之后可能有描述
+        state.currentSequenceId = line.substring(1).trim().split(/\s+/)[0];
+        state.currentSequence = [];
+      } else if (state.currentSequenceId) {
+        state.currentSequence.push(line.trim());
       }
+      return;
     }
     
-    // 保存最后一个FASTA序列
-    if (currentSequenceId && currentSequence) {
-      sequenceData.set(currentSequenceId, currentSequence);
+    // 跳过注释行和空行
+    if (line.startsWith('#') || line.trim() === '') {
+      // 解析序列区域定义
+      if (line.startsWith('##sequence-region')) {
+        this.parseSequenceRegion(state, line);
+      }
+      return;
     }
     
-    // 创建轨道
-    this.createTracks(genome, sequences, featureTypes, sequenceData);
-    
-    return genome;
+    // 解析特征行
+    const feature = this.parseFeatureLine(state, line);
+    if (feature) {
+      // 添加特征到对应的序列（没有序列区域定义时已按需创建）
+      state.sequences.get(feature.sequenceId!)!.addFeature(feature);
+      
+      // 记录特征类型
+      state.featureTypes.add(feature.type);
+      state.featureCount++;
+    }
   }
   
   /**
    * 解析序列区域定义
+   * 序列区域可能出现在该序列的特征之后，此时已按需创建的序列改用声明的长度
    */
-  private parseSequenceRegion(line: string, sequences: Map<string, Sequence>, genome: Genome): void {
+  private parseSequenceRegion(state: GFF3ParseState, line: string): void {
     const parts = line.split(/\s+/);
     if (parts.length >= 4) {
-      const sequenceId = parts[1];
+      const sequenceId = unescapeGFF3(parts[1]);
       const end = parseInt(parts[3]);
       
-      const sequence = new Sequence({
-        id: sequenceId,
-        name: sequenceId,
-        length: end,
-        features: []
-      });
+      const existing = state.sequences.get(sequenceId);
+      if (existing) {
+        existing.length = end;
+        state.genome.length = Math.max(state.genome.length, end);
+        state.inferredSequences.delete(sequenceId);
+        return;
+      }
       
-      sequences.set(sequenceId, sequence);
-      genome.addSequence(sequence);
+      this.addSequence(state, sequenceId, end);
     }
   }
   
   /**
-   * 解析特征行
+   * 创建序列并添加到基因组
    */
-  private parseFeatureLine(line: string): Feature | null {
+  private addSequence(state: GFF3ParseState, sequenceId: string, length: number): Sequence {
+    const sequence = new Sequence({
+      id: sequenceId,
+      name: sequenceId,
+      length: length,
+      features: []
+    });
+    
+    state.sequences.set(sequenceId, sequence);
+    state.genome.addSequence(sequence);
+    return sequence;
+  }
+  
+  /**
+   * 解析特征行，有错误的行记入校验报告并返回 null
+   * 与已有特征共用 ID 的行并入该特征的片段，同样返回 null
+   */
+  private parseFeatureLine(state: GFF3ParseState, line: string): Feature | null {
+    const lineNumber = state.lineNumber;
+    const { errors, warnings } = state.report;
     const parts = line.split('\t');
     if (parts.length < 9) {
+      errors.push({ line: lineNumber, message: `Expected 9 tab-separated columns, found ${parts.length}` });
       return null;
     }
     
-    const [sequenceId, , type, start, end, , strand, , attributesStr] = parts;
+    const [seqid, , type, start, end, , strand, , attributesStr] = parts;
     
-    const attributes = this.parseAttributes(attributesStr);
-    const name = attributes.Name || attributes.gene || attributes.locus_tag;
+    // 坐标必须是从 1 开始的整数
+    if (!/^\d+$/.test(start) || parseInt(start) < 1) {
+      errors.push({ line: lineNumber, message: `Invalid start coordinate '${start}'` });
+      return null;
+    }
+    if (!/^\d+$/.test(end) || parseInt(end) < 1) {
+      errors.push({ line: lineNumber, message: `Invalid end coordinate '${end}'` });
+      return null;
+    }
     
-    return new Feature({
-      id: attributes.ID || `feature_${Date.now()}_${Math.floor(Math.random() * 10000)}`,
-      name: name,
-      type: type,
-      start: parseInt(start),
-      end: parseInt(end),
-      strand: strand as '+' | '-' | '.',
-      attributes: attributes,
-      sequenceId: sequenceId
-    });
-  }
-  
-  /**
-   * 解析特征属性
-   */
-  private parseAttributes(attributesStr: string): Record<string, string> {
-    const attributes: Record<string, string> = {};
-    const pairs = attributesStr.split(';');
+    if (!VALID_STRANDS.includes(strand)) {
+      warnings.push({ line: lineNumber, message: `Unknown strand '${strand}', treated as '.'` });
+    }
     
-    for (const pair of pairs) {
-      const [key, value] = pair.split('=');
-      if (key && value) {
-        // 移除引号
-        const cleanValue = value.replace(/^"|"$/g, '');
-        attributes[key.trim()] = cleanValue;
-      }
+    // seqid 列同样可能包含转义字符
+    const sequenceId = unescapeGFF3(seqid);
+    const featureType = unescapeGFF3(type);
+    const attributes = this.parseAttributes(attributesStr);
+    const name = this.singleValue(attributes.Name) || this.singleValue(attributes.gene) || this.singleValue(attributes.locus_tag);
+    
+    // 没有 ##sequence-region 的序列按需创建，长度先取 region 特征的结束位置，解析结束时再推断
+    let sequence = state.sequences.get(sequenceId);
+    if (!sequence) {
+      sequence = this.addSequence(state, sequenceId, 0);
+      state.inferredSequences.set(sequenceId, { line: lineNumber, regionEnd: 0, maxEnd: 0 });
+    }
+    const inferred = state.inferredSequences.get(sequenceId);
+    if (inferred && featureType === 'region') {
+      inferred.regionEnd = Math.max(inferred.regionEnd, parseInt(end));
+      sequence.length = inferred.regionEnd;
     }
     
-    return attributes;
-  }
-  
-  /**
-   * 创建轨道
-   */
-  private createTracks(genome: Genome, sequences: Map<string, Sequence>, featureTypes: Set<string>, sequenceData: Map<string, string>): void {
-    // 为每种特征类型创建一个轨道
-    const colorMap: Record<string, string> = {
-      'CDS': '#800080',      // 紫色
-      'tRNA': '#FF8C00',      // 橙色
-      'rRNA': '#008000',      // 绿色
-      'misc_RNA': '#A52A2A',  // 棕色
-      'repeat_region': '#FFFF00', // 黄色
-      'tmRNA': '#00FFFF'      // 青色
-    };
+    // 环状复制子通常由带 Is_circular=true 的 region 特征声明
+    if (this.singleValue(attributes.Is_circular) === 'true') {
+      sequence.circular = true;
+    }
     
-    featureTypes.forEach(type => {
-      const track = new Track({
-        name: type,
-        type: type,
-        color: colorMap[type] || '#607D8B', // 默认颜色
-        visible: true,
-        height: 30,
-        features: []
-      });
-      
-      // 收集所有该类型的特征
-      sequences.forEach(sequence => {
-        sequence.features.forEach(feature => {
-          if (feature.type === type) {
-            track.addFeature(feature);
-          }
-        });
-      });
-      
-      if (track.features.length > 0) {
-        genome.addTrack(track);
+    // 跨越原点的特征按 GFF3 规范记为 end 大于序列长度；start > end 的写法同样转换为这种形式
+    const featureStart = parseInt(start);
+    let featureEnd = parseInt(end);
+    if (featureStart > featureEnd) {
+      if (!sequence.circular || sequence.length === 0) {
+        errors.push({ line: lineNumber, message: `Start (${start}) is greater than end (${end})` });
+        return null;
       }
+      featureEnd += sequence.length;
+    }
+    if (inferred) {
+      inferred.maxEnd = Math.max(inferred.maxEnd, featureEnd);
+    } else if (!sequence.circular && sequence.length > 0 && featureEnd > sequence.length) {
+      warnings.push({ line: lineNumber, message: `End (${featureEnd}) exceeds the length of sequence '${sequenceId}' (${sequence.length})` });
+    }
+    
+    ([] as string[]).concat(attributes.Parent || []).forEach(parentId => {
+      state.parentReferences.push({ parentId, line: lineNumber });
     });
     
-    // 添加 GC 相关轨道
-    this.addGCTracks(genome, sequences, sequenceData);
-  }
-  
-  /**
-   * 添加 GC 相关轨道
-   */
-  private addGCTracks(genome: Genome, sequences: Map<string, Sequence>, sequenceData: Map<string, string>): void {
-    // 只有当有序列数据时才计算 GC 轨道
-    if (sequenceData.size === 0) {
-      console.warn('No sequence data found, skipping GC track calculation');
-      return;
+    // 只有多行特征（类型和序列相同）可以共用 ID，作为已有特征的一个片段
+    const id = this.singleValue(attributes.ID);
+    const first = id ? state.featureIds.get(id) : undefined;
+    if (first && first.feature.type === featureType && first.feature.sequenceId === sequenceId) {
+      first.feature.addSegment(featureStart, featureEnd);
+      return null;
     }
     
-    const gcTracks = [
-      { name: 'GC Content', type: 'gc_content', color: '#4CAF50' },
-      { name: 'GC Skew+', type: 'gc_skew_plus', color: '#2196F3' },
-      { name: 'GC Skew-', type: 'gc_skew_minus', color: '#F44336' }
-    ];
+    // 没有 ID 的特征由序列、类型、坐标和行号生成 ID，重新加载同一文件时保持不变；
+    // 与其他特征重复的 ID 同样加上行号，保证 Genome.getFeature 能找到确定的特征，原始 ID 仍保留在属性中
+    let featureId = id || `${sequenceId}_${featureType}_${featureStart}_${featureEnd}_L${lineNumber}`;
+    if (first) {
+      featureId = `${id}_L${lineNumber}`;
+      warnings.push({ line: lineNumber, message: `Duplicate ID '${id}' (first used on line ${first.line} by a ${first.feature.type} on ${first.feature.sequenceId}); feature renamed to '${featureId}'` });
+    }
     
-    // 为每个轨道创建空轨道，然后异步填充数据
-    gcTracks.forEach(trackInfo => {
-      const track = new Track({
-        name: trackInfo.name,
-        type: trackInfo.type,
-        color: trackInfo.color,
-        visible: true,
-        height: 30,
-        features: []
-      });
-      
-      // 立即添加轨道到基因组
-      genome.addTrack(track);
-      
-      // 异步计算 GC 特征，避免阻塞主线程
-      this.calculateGCTrackData(track, sequences, sequenceData, trackInfo.type);
+    const feature = new Feature({
+      id: featureId,
+      name: name,
+      type: featureType,
+      start: featureStart,
+      end: featureEnd,
+      strand: strand === '+' || strand === '-' ? strand : '.',
+      attributes: attributes,
+      sequenceId: sequenceId
     });
+    if (id && !first) {
+      state.featureIds.set(id, { feature, line: lineNumber });
+    }
+    return feature;
   }
   
   /**
-   * 异步计算 GC 轨道数据
+   * 取单值属性的值，属性为数组时取第一个值
    */
-  private calculateGCTrackData(track: Track, sequences: Map<string, Sequence>, sequenceData: Map<string, string>, trackType: string): void {
-    // 使用 setTimeout 来避免阻塞主线程
-    setTimeout(() => {
-      // 为每个序列生成 GC 相关特征
-      sequences.forEach(sequence => {
-        const sequenceStr = sequenceData.get(sequence.id);
-        if (!sequenceStr) return;
-        
-        // 假设每 1000 个碱基为一个窗口
-        const windowSize = 1000;
-        const steps = Math.ceil(sequence.length / windowSize);
-        
-        // 分步计算，避免页面卡顿
-        for (let i = 0; i < steps; i++) {
-          const start = i * windowSize + 1;
-          const end = Math.min((i + 1) * windowSize, sequence.length);
-          
-          // 计算实际的 GC 值
-          const value = this.calculateGCValue(trackType, sequenceStr, start - 1, end - 1);
-          
-          // 创建 GC 特征
-          const feature = new Feature({
-            id: `gc_${trackType}_${sequence.id}_${start}`,
-            name: `${track.name} ${start}-${end}`,
-            type: trackType,
-            start: start,
-            end: end,
-            strand: '.',
-            attributes: { value: value.toString() },
-            sequenceId: sequence.id
-          });
-          
-          track.addFeature(feature);
-        }
-      });
-    }, 0);
+  private singleValue(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
   }
   
   /**
-   * 计算 GC 相关值
+   * 解析特征属性
+   * 按 GFF3 规范，属性之间以 ";" 分隔，键与值以第一个 "=" 分隔（值中可以包含 "="），
+   * 保留字符以 %XX 转义；多值属性的各个值以 "," 分隔，解码为数组
    */
-  private calculateGCValue(type: string, sequence: string, start: number, end: number): number {
-    const windowSequence = sequence.substring(start, end + 1);
-    const length = windowSequence.length;
-    
-    if (length === 0) return 0;
-    
-    let gCount = 0;
-    let cCount = 0;
-    let aCount = 0;
-    let tCount = 0;
+  private parseAttributes(attributesStr: string): FeatureAttributes {
+    const attributes: FeatureAttributes = {};
+    const pairs = attributesStr.split(';');
     
-    // 统计碱基数量
-    for (const base of windowSequence) {
-      switch (base.toUpperCase()) {
-        case 'G': gCount++;
-          break;
-        case 'C': cCount++;
-          break;
-        case 'A': aCount++;
-          break;
-        case 'T': tCount++;
-          break;
-      }
+    for (const pair of pairs) {
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+      
+      const key = unescapeGFF3(pair.substring(0, separator).trim());
+      // 移除引号（部分工具输出的值带有引号）
+      const value = pair.substring(separator + 1).replace(/^"|"$/g, '');
+      if (!key || !value) continue;
+      
+      // 先按未转义的逗号拆分，再解码，值中的 %2C 保留为逗号
+      const decoded = MULTI_VALUE_ATTRIBUTES.includes(key)
+        ? value.split(',').filter(item => item !== '').map(unescapeGFF3)
+        : unescapeGFF3(value);
+      
+      // 同一行中重复出现的属性（如两个 Dbxref=）合并为数组，不覆盖前面的值
+      const existing = attributes[key];
+      attributes[key] = existing === undefined ? decoded : ([] as string[]).concat(existing, decoded);
     }
     
-    switch (type) {
-      case 'gc_content':
-        // GC 含量 = (G + C) / 总碱基数 * 100
-        return ((gCount + cCount) / length) * 100;
-      case 'gc_skew_plus':
-        // GC Skew+ = (G - C) / (G + C) (正值部分)
-        const skew = (gCount - cCount) / (gCount + cCount || 1);
-        return Math.max(0, skew);
-      case 'gc_skew_minus':
-        // GC Skew- = (G - C) / (G + C) (负值部分)
-        const skewMinus = (gCount - cCount) / (gCount + cCount || 1);
-        return Math.min(0, skewMinus);
-      default:
-        return 0;
-    }
+    return attributes;
   }
   
   /**
-   * 验证 GFF3 格式
+   * 验证 GFF3 格式：没有错误且至少有一个可加载的特征
    */
   validate(content: string): boolean {
-    const lines = content.trim().split('\n');
-    
-    // 检查是否以 GFF3 版本头开始
-    if (!lines[0].startsWith('##gff-version 3')) {
-      return false;
-    }
-    
-    // 检查至少有一个特征行
-    let hasFeatureLine = false;
-    for (const line of lines) {
-      if (!line.startsWith('#') && line.trim() !== '') {
-        const parts = line.split('\t');
-        if (parts.length >= 9) {
-          hasFeatureLine = true;
-          break;
-        }
-      }
-    }
-    
-    return hasFeatureLine;
+    const state = this.createState();
+    this.parseChunk(state, content);
+    this.completeReport(state);
+    return state.report.errors.length === 0 && state.featureCount > 0;
+  }
+  
+  /**
+   * 校验 GFF3 文件，返回带行号的错误和警告
+   * 错误：列数不足、坐标无效、非环状序列上 start 大于 end（这些行会被跳过）；
+   * 警告：缺少版本头、缺少 ##sequence-region（序列长度由推断得到）、未知的链方向、非环状序列上 end 超出序列长度、
+   * Parent 找不到对应 ID、不同特征使用重复的 ID
+   */
+  validateReport(content: string): ValidationReport {
+    const state = this.createState();
+    this.parseChunk(state, content);
+    this.completeReport(state);
+    return state.report;
   }
 }
\ No newline at end of file
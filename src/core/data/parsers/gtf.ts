@@ -0,0 +1,247 @@
+// GTF / GFF2 解析器
+import { Genome } from '../models/genome';
+import { Sequence } from '../models/sequence';
+import { Feature } from '../models/feature';
+import { BaseParser } from './base';
+import type { Strand } from '../../../types';
+
+/**
+ * 按 ID 分组的父级特征信息
+ */
+interface FeatureGroup {
+  id: string;
+  parentId?: string;
+  sequenceId: string;
+  start: number;
+  end: number;
+  strand: Strand;
+  attributes: Record<string, string>;
+  feature?: Feature; // 文件中显式给出的 gene / transcript 行
+}
+
+/**
+ * GTF 解析器类
+ * 用于解析 StringTie、Augustus 等工具输出的 GTF（GFF2）文件，
+ * 并按 gene_id / transcript_id 将 exon 和 CDS 归组到所属的转录本和基因
+ */
+export class GTFParser extends BaseParser {
+  /** 转录本级别的特征类型 */
+  private static readonly TRANSCRIPT_TYPES = ['transcript', 'mRNA'];
+  /** 基因和转录本特征 ID 的前缀，许多 GTF 中基因和转录本使用相同的标识符 */
+  private static readonly GENE_ID_PREFIX = 'gene:';
+  private static readonly TRANSCRIPT_ID_PREFIX = 'transcript:';
+
+  /**
+   * 解析 GTF 文件内容
+   */
+  parse(content: string): Genome {
+    const lines = content.split(/\r?\n/);
+    const genome = new Genome({});
+    const sequences: Map<string, Sequence> = new Map();
+    const featureTypes: Set<string> = new Set();
+    const genes: Map<string, FeatureGroup> = new Map();
+    const transcripts: Map<string, FeatureGroup> = new Map();
+    const childCounts: Map<string, number> = new Map();
+
+    lines.forEach((line, index) => {
+      // 跳过注释行和空行
+      if (line.startsWith('#') || line.trim() === '') return;
+
+      const parts = line.split('\t');
+      if (parts.length < 9) return;
+
+      const [sequenceId, , type, startStr, endStr, , strandStr, , attributesStr] = parts;
+      const start = parseInt(startStr);
+      const end = parseInt(endStr);
+      if (isNaN(start) || isNaN(end)) return;
+
+      const strand: Strand = strandStr === '+' || strandStr === '-' ? strandStr : '.';
+      const attributes = this.parseAttributes(attributesStr);
+      const geneId = attributes.gene_id;
+      const transcriptId = attributes.transcript_id;
+
+      // 记录基因和转录本的范围
+      if (geneId) {
+        this.extendGroup(genes, geneId, undefined, sequenceId, start, end, strand, attributes);
+      }
+      if (transcriptId) {
+        this.extendGroup(transcripts, transcriptId, geneId, sequenceId, start, end, strand, attributes);
+      }
+
+      let feature: Feature;
+      if (type === 'gene' && geneId) {
+        feature = this.createGroupFeature('gene', genes.get(geneId)!, false);
+        genes.get(geneId)!.feature = feature;
+      } else if (GTFParser.TRANSCRIPT_TYPES.includes(type) && transcriptId) {
+        feature = this.createGroupFeature(type, transcripts.get(transcriptId)!, true);
+        transcripts.get(transcriptId)!.feature = feature;
+      } else {
+        // exon、CDS 等子特征挂到所属转录本（或基因）下
+        const parentId = transcriptId
+          ? GTFParser.TRANSCRIPT_ID_PREFIX + transcriptId
+          : geneId ? GTFParser.GENE_ID_PREFIX + geneId : undefined;
+        const childIndex = (childCounts.get(`${parentId}:${type}`) || 0) + 1;
+        if (parentId) {
+          childCounts.set(`${parentId}:${type}`, childIndex);
+        }
+
+        feature = new Feature({
+          id: parentId ? `${parentId}.${type}${attributes.exon_number || childIndex}` : `${sequenceId}_${type}_${index + 1}`,
+          type: type,
+          start: start,
+          end: end,
+          strand: strand,
+          attributes: parentId ? { ...attributes, Parent: parentId } : attributes,
+          sequenceId: sequenceId
+        });
+      }
+
+      this.getOrCreateSequence(sequenceId, sequences, genome).addFeature(feature);
+      featureTypes.add(feature.type);
+    });
+
+    // 文件中没有显式给出的转录本和基因，由其子特征的范围生成
+    transcripts.forEach(group => {
+      if (!group.feature) {
+        const feature = this.createGroupFeature('transcript', group, true);
+        sequences.get(group.sequenceId)!.addFeature(feature);
+        featureTypes.add(feature.type);
+      } else {
+        this.updateGroupFeature(group.feature, group);
+      }
+    });
+    genes.forEach(group => {
+      if (!group.feature) {
+        const feature = this.createGroupFeature('gene', group, false);
+        sequences.get(group.sequenceId)!.addFeature(feature);
+        featureTypes.add(feature.type);
+      } else {
+        this.updateGroupFeature(group.feature, group);
+      }
+    });
+
+    // GTF 不包含序列长度信息，以最大特征终点作为序列长度
+    sequences.forEach(sequence => {
+      sequence.length = sequence.features.reduce((length, feature) => Math.max(length, feature.end), sequence.length);
+    });
+    genome.length = genome.sequences.reduce((length: number, sequence: Sequence) => Math.max(length, sequence.length), 0);
+
+    // 创建轨道
+    this.createTracks(genome, sequences, featureTypes, new Map());
+
+    return genome;
+  }
+
+  /**
+   * 获取或创建序列
+   */
+  private getOrCreateSequence(sequenceId: string, sequences: Map<string, Sequence>, genome: Genome): Sequence {
+    let sequence = sequences.get(sequenceId);
+    if (!sequence) {
+      sequence = new Sequence({
+        id: sequenceId,
+        name: sequenceId,
+        length: 0,
+        features: []
+      });
+      sequences.set(sequenceId, sequence);
+      genome.addSequence(sequence);
+    }
+    return sequence;
+  }
+
+  /**
+   * 用子特征的范围扩展父级分组
+   */
+  private extendGroup(groups: Map<string, FeatureGroup>, id: string, parentId: string | undefined, sequenceId: string, start: number, end: number, strand: Strand, attributes: Record<string, string>): void {
+    const group = groups.get(id);
+    if (group) {
+      group.start = Math.min(group.start, start);
+      group.end = Math.max(group.end, end);
+      return;
+    }
+
+    // 只保留基因 / 转录本级别的属性
+    const groupAttributes: Record<string, string> = {};
+    Object.keys(attributes).forEach(key => {
+      if (key.startsWith('gene_') || (parentId && key.startsWith('transcript_'))) {
+        groupAttributes[key] = attributes[key];
+      }
+    });
+
+    groups.set(id, { id, parentId, sequenceId, start, end, strand, attributes: groupAttributes });
+  }
+
+  /**
+   * 根据分组创建基因或转录本特征
+   * 特征 ID 加上 gene: / transcript: 前缀，原始的 gene_id / transcript_id 保留在属性中
+   */
+  private createGroupFeature(type: string, group: FeatureGroup, isTranscript: boolean): Feature {
+    const name = isTranscript
+      ? group.attributes.transcript_name || group.id
+      : group.attributes.gene_name || group.id;
+    const id = (isTranscript ? GTFParser.TRANSCRIPT_ID_PREFIX : GTFParser.GENE_ID_PREFIX) + group.id;
+    const attributes: Record<string, string> = isTranscript
+      ? { ...group.attributes, transcript_id: group.id, ID: id }
+      : { ...group.attributes, gene_id: group.id, ID: id };
+
+    return new Feature({
+      id: id,
+      name: name,
+      type: type,
+      start: group.start,
+      end: group.end,
+      strand: group.strand,
+      attributes: group.parentId ? { ...attributes, Parent: GTFParser.GENE_ID_PREFIX + group.parentId } : attributes,
+      sequenceId: group.sequenceId
+    });
+  }
+
+  /**
+   * 显式给出的基因 / 转录本行可能早于其子特征，用最终范围更新
+   */
+  private updateGroupFeature(feature: Feature, group: FeatureGroup): void {
+    feature.start = Math.min(feature.start, group.start);
+    feature.end = Math.max(feature.end, group.end);
+  }
+
+  /**
+   * 解析 GTF 属性
+   * 例如：gene_id "STRG.1"; transcript_id "STRG.1.1"; exon_number "1";
+   */
+  private parseAttributes(attributesStr: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pairs = attributesStr.split(';');
+
+    for (const pair of pairs) {
+      const trimmed = pair.trim();
+      if (!trimmed) continue;
+
+      const spaceIndex = trimmed.search(/\s/);
+      if (spaceIndex === -1) continue;
+
+      const key = trimmed.substring(0, spaceIndex);
+      // 移除引号
+      const value = trimmed.substring(spaceIndex + 1).trim().replace(/^"|"$/g, '');
+
+      // 重复的属性（如 tag）以逗号合并
+      attributes[key] = attributes[key] !== undefined ? `${attributes[key]},${value}` : value;
+    }
+
+    return attributes;
+  }
+
+  /**
+   * 验证 GTF 格式
+   */
+  validate(content: string): boolean {
+    const lines = content.trim().split(/\r?\n/);
+
+    // 检查至少有一个带 gene_id 或 transcript_id 的特征行
+    return lines.some(line => {
+      if (line.startsWith('#')) return false;
+      const parts = line.split('\t');
+      return parts.length >= 9 && /(gene_id|transcript_id)\s+/.test(parts[8]);
+    });
+  }
+}
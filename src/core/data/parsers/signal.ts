@@ -0,0 +1,115 @@
+// 定量信号解析器基类
+import { Track } from '../models/track';
+import { Feature } from '../models/feature';
+import { TrackParser } from './base';
+import type { PlotStyle } from '../../../types';
+
+/**
+ * track 定义行（track type=bedGraph name=... viewLimits=...）中的设置
+ */
+export interface SignalTrackSettings {
+  name?: string;
+  color?: string;
+  style?: PlotStyle;
+  viewLimits?: [number, number];
+}
+
+/**
+ * 定量信号解析器基类
+ * 提供 bedGraph 与 WIG 共用的 track 定义行解析和定量轨道创建逻辑
+ */
+export abstract class SignalParser extends TrackParser {
+  /**
+   * 解析 track 定义行
+   * 支持 name、color、graphType（bar / points）和 viewLimits（下限:上限）
+   */
+  protected parseTrackLine(line: string): SignalTrackSettings {
+    const settings: SignalTrackSettings = {};
+    const pattern = /(\w+)=("([^"]*)"|'([^']*)'|\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(line)) !== null) {
+      const key = match[1];
+      const value = match[3] ?? match[4] ?? match[2];
+
+      switch (key) {
+        case 'name':
+          settings.name = value;
+          break;
+        case 'color': {
+          const channels = value.split(',').map(channel => parseInt(channel));
+          if (channels.length === 3 && channels.every(channel => channel >= 0 && channel <= 255)) {
+            settings.color = '#' + channels.map(channel => channel.toString(16).padStart(2, '0')).join('');
+          }
+          break;
+        }
+        case 'graphType':
+          // UCSC 的 points 对应折线图
+          settings.style = value === 'points' ? 'line' : 'bar';
+          break;
+        case 'viewLimits': {
+          const [lower, upper] = value.split(':').map(limit => parseFloat(limit));
+          if (!isNaN(lower) && !isNaN(upper) && lower < upper) {
+            settings.viewLimits = [lower, upper];
+          }
+          break;
+        }
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * 创建空的定量轨道
+   */
+  protected createSignalTrack(name: string, settings: SignalTrackSettings): Track {
+    return new Track({
+      name: settings.name || name,
+      type: 'quantitative',
+      color: settings.color || '#00897B',
+      visible: true,
+      height: 30,
+      features: []
+    });
+  }
+
+  /**
+   * 创建一个数据点特征
+   */
+  protected createSignalFeature(track: Track, sequenceId: string, start: number, end: number, value: number): Feature {
+    return new Feature({
+      id: `${track.name}_${track.features.length + 1}`,
+      type: 'quantitative',
+      start: start,
+      end: end,
+      strand: '.',
+      attributes: { value: value.toString() },
+      sequenceId: sequenceId
+    });
+  }
+
+  /**
+   * 根据数据范围设置绘图选项
+   * 未指定 viewLimits 时，范围取数据的最小值和最大值（包含 0），基线为 0
+   */
+  protected finishSignalTrack(track: Track, settings: SignalTrackSettings): void {
+    let dataMin = 0;
+    let dataMax = 0;
+    // 数据点可能很多，不使用展开参数求最值
+    track.features.forEach(feature => {
+      const value = parseFloat(feature.attributes.value as string);
+      dataMin = Math.min(dataMin, value);
+      dataMax = Math.max(dataMax, value);
+    });
+    const [min, max] = settings.viewLimits || [dataMin, dataMax];
+
+    track.plot = {
+      style: settings.style || 'bar',
+      min: min,
+      // 数据全为 0 时避免范围为空
+      max: max > min ? max : min + 1,
+      baseline: Math.min(Math.max(0, min), max)
+    };
+  }
+}
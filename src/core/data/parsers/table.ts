@@ -0,0 +1,190 @@
+// CSV / TSV 表格解析器
+import Papa from 'papaparse';
+import { Genome } from '../models/genome';
+import { Track } from '../models/track';
+import { Feature } from '../models/feature';
+import { TrackParser } from './base';
+import type { ColumnMapping, Strand, TrackParseOptions } from '../../../types';
+
+/**
+ * 表格解析器类
+ * 用于解析合作者提供的注释表格（CSV / TSV），按列对应关系生成特征，
+ * 未对应的列保存到 attributes 中；指定了 type 列时按其取值分组生成多个轨道
+ */
+export class TableParser extends TrackParser {
+  /** 各轨道依次使用的颜色 */
+  private static readonly TRACK_COLORS = ['#795548', '#607D8B', '#FF9800', '#9C27B0', '#009688', '#F44336'];
+
+  /** 自动识别列对应关系时使用的常见列名（小写） */
+  private static readonly COLUMN_ALIASES: Record<keyof ColumnMapping, string[]> = {
+    seqid: ['seqid', 'seqname', 'chrom', 'chromosome', 'chr', 'contig', 'sequence', 'replicon'],
+    start: ['start', 'begin', 'from', 'chromstart', 'start_position'],
+    end: ['end', 'stop', 'to', 'chromend', 'end_position'],
+    strand: ['strand', 'orientation', 'direction'],
+    type: ['type', 'feature', 'category', 'class', 'feature_type'],
+    name: ['name', 'gene', 'gene_name', 'id', 'locus_tag', 'locus', 'label']
+  };
+
+  /**
+   * 解析表格文件内容
+   * 坐标按 1-based 闭区间（与 GFF3 相同）处理；所有数据行都被跳过时抛出错误，说明跳过的原因
+   */
+  parse(content: string, genome: Genome, name: string = 'Table', options: TrackParseOptions = {}): Track[] {
+    const { rows, columns } = TableParser.readTable(content);
+    const mapping = options.columnMapping || TableParser.guessColumnMapping(columns);
+    if (!mapping) {
+      throw new Error('Column mapping for start and end is required');
+    }
+
+    // 没有序列列时，所有行都放在第一条序列上
+    const defaultSequenceId = mapping.seqid ? undefined : genome.sequences[0]?.id;
+    if (!mapping.seqid) {
+      if (!defaultSequenceId) {
+        throw new Error('No sequence in the genome to place table rows on');
+      }
+      if (genome.sequences.length > 1) {
+        console.warn(`Table has no seqid column, rows are placed on the first sequence '${defaultSequenceId}'`);
+      }
+    }
+
+    const mappedColumns = Object.values(mapping).filter((column): column is string => !!column);
+    const missingColumns = mappedColumns.filter(column => !columns.includes(column));
+    if (missingColumns.length > 0) {
+      throw new Error(`Columns not found in table: ${missingColumns.join(', ')}`);
+    }
+
+    const attributeColumns = columns.filter(column => !mappedColumns.includes(column));
+    const tracks: Map<string, Track> = new Map();
+    const unknownSequences: Set<string> = new Set();
+    let invalidRows = 0;
+
+    rows.forEach((row, index) => {
+      const seqid = mapping.seqid ? (row[mapping.seqid] || '').trim() : defaultSequenceId!;
+      const start = parseInt(row[mapping.start]);
+      const end = parseInt(row[mapping.end]);
+      if (!seqid || isNaN(start) || isNaN(end)) {
+        invalidRows++;
+        return;
+      }
+
+      const sequenceId = mapping.seqid ? this.resolveSequenceId(genome, seqid) : defaultSequenceId;
+      if (!sequenceId) {
+        unknownSequences.add(seqid);
+        return;
+      }
+
+      const type = (mapping.type && row[mapping.type]?.trim()) || 'region';
+      let track = tracks.get(type);
+      if (!track) {
+        const color = TableParser.TRACK_COLORS[tracks.size % TableParser.TRACK_COLORS.length];
+        track = new Track({
+          name: mapping.type ? `${name}: ${type}` : name,
+          type: 'table',
+          color: color,
+          visible: true,
+          height: 30,
+          features: []
+        });
+        tracks.set(type, track);
+      }
+
+      const attributes: Record<string, string> = {};
+      attributeColumns.forEach(column => {
+        const value = row[column]?.trim();
+        if (value) {
+          attributes[column] = value;
+        }
+      });
+
+      const featureName = mapping.name ? row[mapping.name]?.trim() : undefined;
+      track.addFeature(new Feature({
+        // 表格第 1 行为表头，数据从第 2 行开始
+        id: `${name}_${index + 2}`,
+        name: featureName || undefined,
+        type: type,
+        start: Math.min(start, end),
+        end: Math.max(start, end),
+        strand: mapping.strand ? this.parseStrand(row[mapping.strand]) : '.',
+        attributes: attributes,
+        sequenceId: sequenceId
+      }));
+    });
+
+    const skipped: string[] = [];
+    if (invalidRows > 0) {
+      const required = [mapping.seqid, mapping.start, mapping.end].filter(column => column).join('/');
+      skipped.push(`${invalidRows} rows without valid ${required}`);
+    }
+    if (unknownSequences.size > 0) {
+      const examples = Array.from(unknownSequences).slice(0, 5).join(', ');
+      skipped.push(`rows on sequences not in the genome (${examples}${unknownSequences.size > 5 ? ', ...' : ''})`);
+    }
+    if (tracks.size === 0 && rows.length > 0) {
+      throw new Error(`No table rows could be loaded: skipped ${skipped.join('; ')}`);
+    }
+    if (skipped.length > 0) {
+      console.warn(`Table rows were skipped: ${skipped.join('; ')}`);
+    }
+
+    return Array.from(tracks.values());
+  }
+
+  /**
+   * 读取表格，返回数据行和表头列名
+   * 分隔符由 papaparse 自动识别，# 开头的行视为注释
+   */
+  static readTable(content: string): { rows: Record<string, string>[]; columns: string[] } {
+    const result = Papa.parse<Record<string, string>>(content, {
+      header: true,
+      skipEmptyLines: true,
+      comments: '#',
+      transformHeader: (header: string) => header.trim()
+    });
+    return { rows: result.data, columns: result.meta.fields || [] };
+  }
+
+  /**
+   * 读取表头列名，供用户设置列对应关系
+   */
+  static readColumns(content: string): string[] {
+    const result = Papa.parse<string[]>(content, { preview: 1, comments: '#', skipEmptyLines: true });
+    return result.data.length > 0 ? result.data[0].map(column => column.trim()) : [];
+  }
+
+  /**
+   * 按常见列名猜测列对应关系，找不到 start 或 end 列时返回 null；seqid 列可以没有
+   */
+  static guessColumnMapping(columns: string[]): ColumnMapping | null {
+    const used: Set<string> = new Set();
+    const find = (field: keyof ColumnMapping): string | undefined => {
+      const column = columns.find(column => !used.has(column) && TableParser.COLUMN_ALIASES[field].includes(column.toLowerCase()));
+      if (column) used.add(column);
+      return column;
+    };
+
+    const seqid = find('seqid');
+    const start = find('start');
+    const end = find('end');
+    if (!start || !end) return null;
+
+    return { seqid, start, end, strand: find('strand'), type: find('type'), name: find('name') };
+  }
+
+  /**
+   * 将表格中常见的方向写法转换为 + / - / .
+   */
+  private parseStrand(value: string | undefined): Strand {
+    const strand = (value || '').trim().toLowerCase();
+    if (['+', '1', '+1', 'forward', 'plus', 'f'].includes(strand)) return '+';
+    if (['-', '-1', 'reverse', 'minus', 'complement', 'r'].includes(strand)) return '-';
+    return '.';
+  }
+
+  /**
+   * 验证表格格式：至少有表头和一行数据，且列数一致
+   */
+  validate(content: string): boolean {
+    const result = Papa.parse<string[]>(content, { preview: 2, comments: '#', skipEmptyLines: true });
+    return result.data.length === 2 && result.data[0].length > 1 && result.data[0].length === result.data[1].length;
+  }
+}
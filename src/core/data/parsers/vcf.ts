@@ -0,0 +1,116 @@
+// VCF 解析器
+import { Genome } from '../models/genome';
+import { Track } from '../models/track';
+import { Feature } from '../models/feature';
+import { TrackParser } from './base';
+
+/**
+ * 各类变异的颜色，SNV 使用轨道颜色
+ */
+const VARIANT_COLORS: Record<string, string> = {
+  insertion: '#2E7D32', // 绿色
+  deletion: '#C62828',  // 红色
+  MNV: '#6A1B9A',       // 紫色
+  other: '#6A1B9A'
+};
+
+/**
+ * VCF 解析器类
+ * 用于解析重测序得到的 SNP / InDel 文件，生成一个变异位点轨道添加到已加载的基因组上
+ */
+export class VcfParser extends TrackParser {
+  /**
+   * 解析 VCF 文件内容
+   */
+  parse(content: string, genome: Genome, name: string = 'Variants'): Track[] {
+    const lines = content.split(/\r?\n/);
+    const unknownChroms: Set<string> = new Set();
+    const usedIds: Set<string> = new Set();
+    // variant 类型的轨道由渲染器以点状图形绘制
+    const track = new Track({
+      name: name,
+      type: 'variant',
+      color: '#3F51B5',
+      visible: true,
+      height: 30,
+      features: []
+    });
+
+    lines.forEach((line, index) => {
+      // 跳过元信息行、表头行和空行
+      if (line.startsWith('#') || line.trim() === '') return;
+
+      const parts = line.split('\t');
+      if (parts.length < 8) return;
+
+      const [chrom, posStr, id, ref, alt, qual, filter, info] = parts;
+      const pos = parseInt(posStr);
+      if (isNaN(pos)) return;
+
+      const sequenceId = this.resolveSequenceId(genome, chrom);
+      if (!sequenceId) {
+        unknownChroms.add(chrom);
+        return;
+      }
+
+      const variantType = this.classifyVariant(ref, alt);
+      const hasId = id && id !== '.';
+
+      // 拆分的多等位位点或重复记录会得到相同的 ID，与 GFF3 一样加上行号保证唯一
+      let featureId = hasId ? id : `${chrom}:${pos}:${ref}>${alt}`;
+      if (usedIds.has(featureId)) {
+        featureId = `${featureId}_L${index + 1}`;
+      }
+      usedIds.add(featureId);
+
+      track.addFeature(new Feature({
+        id: featureId,
+        name: hasId ? id : undefined,
+        type: 'variant',
+        // 变异位点绘制为 POS 处的一个点，缺失等多碱基变异覆盖的碱基数记在 ref_length 中
+        start: pos,
+        end: pos,
+        strand: '.',
+        attributes: {
+          REF: ref,
+          ref_length: Math.max(ref.length, 1).toString(),
+          ALT: alt,
+          QUAL: qual,
+          FILTER: filter,
+          INFO: info,
+          variant_type: variantType
+        },
+        sequenceId: sequenceId,
+        color: VARIANT_COLORS[variantType]
+      }));
+    });
+
+    if (unknownChroms.size > 0) {
+      console.warn('Variants on sequences not in the genome were skipped:', Array.from(unknownChroms));
+    }
+
+    return track.features.length > 0 ? [track] : [];
+  }
+
+  /**
+   * 按 REF / ALT 判断变异类型，多等位位点以第一个 ALT 为准
+   */
+  private classifyVariant(ref: string, alt: string): string {
+    const firstAlt = alt.split(',')[0];
+
+    // 符号等位基因（<DEL>）和断点记录
+    if (!/^[ACGTN]+$/i.test(ref) || !/^[ACGTN]+$/i.test(firstAlt)) return 'other';
+
+    if (ref.length === firstAlt.length) {
+      return ref.length === 1 ? 'SNV' : 'MNV';
+    }
+    return firstAlt.length > ref.length ? 'insertion' : 'deletion';
+  }
+
+  /**
+   * 验证 VCF 格式
+   */
+  validate(content: string): boolean {
+    return content.trimStart().startsWith('##fileformat=VCF');
+  }
+}
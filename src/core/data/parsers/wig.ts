@@ -0,0 +1,124 @@
+// WIG 解析器
+import { Genome } from '../models/genome';
+import { Track } from '../models/track';
+import { SignalParser } from './signal';
+import type { SignalTrackSettings } from './signal';
+
+/**
+ * 当前数据块的声明（fixedStep / variableStep 行）
+ */
+interface WigBlock {
+  mode: 'fixedStep' | 'variableStep';
+  sequenceId: string | null;
+  start: number;
+  step: number;
+  span: number;
+}
+
+/**
+ * WIG 解析器类
+ * 用于解析 fixedStep / variableStep 格式的信号文件，每个 track 定义行生成一个定量轨道
+ */
+export class WigParser extends SignalParser {
+  /**
+   * 解析 WIG 文件内容
+   */
+  parse(content: string, genome: Genome, name: string = 'WIG'): Track[] {
+    const lines = content.split(/\r?\n/);
+    const tracks: { track: Track; settings: SignalTrackSettings }[] = [];
+    const unknownChroms: Set<string> = new Set();
+
+    let settings: SignalTrackSettings = {};
+    let current: { track: Track; settings: SignalTrackSettings } | null = null;
+    let block: WigBlock | null = null;
+
+    // 获取当前轨道，数据出现在 track 定义行之前时使用默认设置
+    const currentTrack = (): Track => {
+      if (!current) {
+        const trackName = tracks.length > 0 ? `${name} ${tracks.length + 1}` : name;
+        current = { track: this.createSignalTrack(trackName, settings), settings };
+        tracks.push(current);
+      }
+      return current.track;
+    };
+
+    for (const line of lines) {
+      const text = line.trim();
+      if (text === '' || text.startsWith('#') || text.startsWith('browser')) continue;
+
+      if (text.startsWith('track')) {
+        settings = this.parseTrackLine(text);
+        current = null;
+        continue;
+      }
+
+      if (text.startsWith('fixedStep') || text.startsWith('variableStep')) {
+        block = this.parseDeclarationLine(text, genome, unknownChroms);
+        continue;
+      }
+
+      // 数据行之前必须有声明行；未知序列上的数据直接跳过
+      if (!block || !block.sequenceId) continue;
+
+      if (block.mode === 'variableStep') {
+        const [posStr, valueStr] = text.split(/\s+/);
+        const pos = parseInt(posStr);
+        const value = parseFloat(valueStr);
+        if (isNaN(pos) || isNaN(value)) continue;
+
+        const track = currentTrack();
+        track.addFeature(this.createSignalFeature(track, block.sequenceId, pos, pos + block.span - 1, value));
+      } else {
+        const value = parseFloat(text);
+        if (isNaN(value)) continue;
+
+        const track = currentTrack();
+        track.addFeature(this.createSignalFeature(track, block.sequenceId, block.start, block.start + block.span - 1, value));
+        block.start += block.step;
+      }
+    }
+
+    if (unknownChroms.size > 0) {
+      console.warn('WIG data on sequences not in the genome were skipped:', Array.from(unknownChroms));
+    }
+
+    tracks.forEach(({ track, settings }) => this.finishSignalTrack(track, settings));
+
+    return tracks.map(({ track }) => track).filter(track => track.features.length > 0);
+  }
+
+  /**
+   * 解析声明行
+   * 例如：fixedStep chrom=chr1 start=1 step=100 span=100
+   *       variableStep chrom=chr1 span=25
+   */
+  private parseDeclarationLine(line: string, genome: Genome, unknownChroms: Set<string>): WigBlock {
+    const fields: Record<string, string> = {};
+    line.split(/\s+/).slice(1).forEach(field => {
+      const [key, value] = field.split('=');
+      fields[key] = value;
+    });
+
+    const sequenceId = this.resolveSequenceId(genome, fields.chrom || '');
+    if (!sequenceId && fields.chrom) {
+      unknownChroms.add(fields.chrom);
+    }
+
+    const step = parseInt(fields.step) || 1;
+    return {
+      mode: line.startsWith('fixedStep') ? 'fixedStep' : 'variableStep',
+      sequenceId: sequenceId,
+      start: parseInt(fields.start) || 1,
+      step: step,
+      // fixedStep 未指定 span 时默认覆盖整个步长
+      span: parseInt(fields.span) || (line.startsWith('fixedStep') ? step : 1)
+    };
+  }
+
+  /**
+   * 验证 WIG 格式
+   */
+  validate(content: string): boolean {
+    return /^(fixedStep|variableStep)\s/m.test(content);
+  }
+}
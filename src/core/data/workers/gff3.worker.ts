@@ -0,0 +1,94 @@
+// GFF3 解析 Worker
+import { GFF3Parser, GFF3ValidationError } from '../parsers/gff3';
+import { isGzip, readFileText } from '../../utils/gzip';
+import type { Genome } from '../models/genome';
+import type { Genome as GenomeType, LoadProgress, ValidationReport } from '../../../types';
+
+/**
+ * 主线程发送的解析请求
+ */
+export interface GFF3WorkerRequest {
+  data: Blob;
+}
+
+/**
+ * Worker 返回的消息：解析进度、解析结果或错误
+ */
+export type GFF3WorkerResponse =
+  | { type: 'progress'; progress: LoadProgress }
+  | { type: 'done'; genome: GenomeType; validation?: ValidationReport }
+  | { type: 'error'; message: string; validation?: ValidationReport };
+
+/** 每次读取的字节数 */
+const CHUNK_SIZE = 1024 * 1024;
+
+const parser = new GFF3Parser();
+
+/**
+ * 向主线程发送消息
+ */
+function post(message: GFF3WorkerResponse): void {
+  postMessage(message);
+}
+
+/**
+ * 转换为可传回主线程的数据
+ * 特征同时属于序列和轨道，只随轨道传回一份，由主线程重新关联到序列
+ */
+function serializeGenome(genome: Genome): GenomeType {
+  return {
+    id: genome.id,
+    name: genome.name,
+    length: genome.length,
+    sequences: genome.sequences.map(sequence => ({
+      id: sequence.id,
+      name: sequence.name,
+      length: sequence.length,
+      features: [],
+      sequence: sequence.sequence,
+      circular: sequence.circular
+    })),
+    tracks: genome.tracks.map(track => track.toJSON())
+  };
+}
+
+onmessage = async (event: MessageEvent<GFF3WorkerRequest>) => {
+  const { data } = event.data;
+  const state = parser.createState();
+  const totalBytes = data.size;
+
+  const report = (bytesParsed: number) => post({
+    type: 'progress',
+    progress: { bytesParsed, totalBytes, featuresFound: state.featureCount }
+  });
+
+  try {
+    const head = new Uint8Array(await data.slice(0, 2).arrayBuffer());
+
+    if (isGzip(head)) {
+      // 压缩文件无法按字节分块解码，先整体解压再按块解析，进度按解压后的比例折算
+      const content = await readFileText(data);
+      for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+        parser.parseChunk(state, content.substring(offset, offset + CHUNK_SIZE));
+        report(Math.round(totalBytes * Math.min(1, (offset + CHUNK_SIZE) / content.length)));
+      }
+    } else {
+      // 流式解码，多字节字符可能被切分在两块之间
+      const decoder = new TextDecoder();
+      for (let offset = 0; offset < totalBytes; offset += CHUNK_SIZE) {
+        const chunk = new Uint8Array(await data.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+        parser.parseChunk(state, decoder.decode(chunk, { stream: true }));
+        report(Math.min(totalBytes, offset + CHUNK_SIZE));
+      }
+      parser.parseChunk(state, decoder.decode());
+    }
+
+    // Worker 中不会阻塞页面，直接计算 GC 轨道
+    const genome = parser.finishParse(state, false);
+    post({ type: 'done', genome: serializeGenome(genome), validation: genome.validation });
+  } catch (error) {
+    // 校验失败时带回完整报告，由主线程重新构造 GFF3ValidationError
+    const validation = error instanceof GFF3ValidationError ? error.report : undefined;
+    post({ type: 'error', message: (error as Error).message, validation });
+  }
+};
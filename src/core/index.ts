@@ -1,7 +1,10 @@
 // 核心引擎入口
 import { CircularRenderer } from './renderer/circular';
-import { DataManager, Genome } from './data';
-import type { ViewMode, CGViewOptions, EventType, EventCallback, PanOffset, ExportOptions } from '../types';
+import { DataManager, Genome, Track, ProjectBundle } from './data';
+import { RENDER_CONFIG, POINT_TRACK_TYPES, TICK_TRACK_TYPES } from './renderer/circular/config';
+import { escapeHTML } from './utils/html';
+import { buildPlotBins, plotValueToRadius, plotBinPoints, plotAreaPoints, pointsToPath, createArcPath, createConnectorPath, featureArcAngles, featureLane, tickGeometry, canRenderTickLabel, splitGCTracks, featureColor } from './renderer/circular/utils';
+import type { ViewMode, CGViewOptions, EventType, EventCallback, PanOffset, ExportOptions, PlotOptions, TrackParseOptions, BundleFile, BundleManifest, GCWindowOptions, ORFOptions, RestrictionEnzyme, RestrictionOptions, RestrictionDigest, MotifSearchOptions, MotifSearchResult } from '../types';
 
 /**
  * CGView 核心类
@@ -17,6 +20,15 @@ export class CGView {
   private genome: Genome | null = null;
   private eventListeners: Map<EventType, EventCallback[]> = new Map();
   private labelsVisible: boolean = true;
+  /** 当前图谱加载时使用的原始文件，导出项目包时原样写出 */
+  private sources: { genome: BundleFile | null; sequence: BundleFile | null; tracks: BundleFile[]; files: Map<string, string | Blob> } = {
+    genome: null,
+    sequence: null,
+    tracks: [],
+    files: new Map()
+  };
+  /** 当前加载操作的取消控制器 */
+  private loadController: AbortController | null = null;
   
   constructor(container: HTMLElement, options: CGViewOptions = {}) {
     this.options = {
@@ -65,10 +77,34 @@ export class CGView {
   
   /**
    * 加载基因组数据
+   * 解析过程中触发 loadProgress 事件，可通过 cancelLoading() 取消
+   * @param sequenceData 可选的 FASTA 序列文件，按 seqid 附加到注释上
    */
-  async loadGenome(data: string | File, format: string = 'gff3'): Promise<void> {
+  async loadGenome(data: string | File, format: string = 'gff3', sequenceData?: string | File): Promise<void> {
     console.log('Loading genome data...');
-    this.genome = await this.dataManager.loadGenome(data, format);
+    const sequenceContent = sequenceData !== undefined ? await this.dataManager.readContent(sequenceData) : undefined;
+    
+    // 取消尚未完成的加载
+    this.cancelLoading();
+    const controller = new AbortController();
+    this.loadController = controller;
+    try {
+      this.genome = await this.dataManager.loadGenome(data, format, sequenceContent, {
+        onProgress: (progress) => this.emit('loadProgress', progress),
+        signal: controller.signal
+      });
+    } finally {
+      if (this.loadController === controller) {
+        this.loadController = null;
+      }
+    }
+    
+    // 记录原始文件，供导出项目包使用；大文件直接保存文件对象，不在主线程读取
+    this.sources = { genome: null, sequence: null, tracks: [], files: new Map() };
+    this.sources.genome = this.addSource(`genome.${format}`, data, { format });
+    if (sequenceContent !== undefined) {
+      this.sources.sequence = this.addSource('sequence.fasta', sequenceContent, { format: 'fasta' });
+    }
     console.log('Genome loaded successfully:', {
       tracks: this.genome.tracks.length,
       sequences: this.genome.sequences.length
@@ -81,6 +117,228 @@ export class CGView {
     this.render();
     console.log('Rendering completed');
     this.emit('dataLoaded', this.genome);
+    
+    // 文件有被跳过的行或可疑内容时报告给界面
+    const validation = this.genome.validation;
+    if (validation && (validation.errors.length > 0 || validation.warnings.length > 0)) {
+      this.emit('validationReport', validation);
+    }
+  }
+  
+  /**
+   * 为已加载的基因组附加 FASTA 序列，并重新计算 GC 轨道
+   * @returns 成功匹配的序列数量
+   */
+  async loadSequences(data: string | File): Promise<number> {
+    if (!this.genome) {
+      throw new Error('No genome loaded');
+    }
+    
+    const content = await this.dataManager.readContent(data);
+    const matchedCount = await this.dataManager.attachSequences(this.genome, content);
+    console.log('Sequences attached:', { matched: matchedCount });
+    this.sources.sequence = this.addSource('sequence.fasta', content, { format: 'fasta' });
+    
+    // 重新设置基因组数据，更新空间索引并重新渲染
+    this.circularRenderer.setGenome(this.genome);
+    this.emit('dataLoaded', this.genome);
+    
+    return matchedCount;
+  }
+  
+  /**
+   * 为已加载的基因组添加附加轨道（如 BED 区域、VCF 变异位点）
+   * @param name 默认轨道名称，通常为文件名
+   * @param options 格式相关的解析选项（如 CSV / TSV 的列对应关系）
+   * @returns 新添加的轨道
+   */
+  async loadTrack(data: string | File, format: string, name?: string, options?: TrackParseOptions): Promise<Track[]> {
+    if (!this.genome) {
+      throw new Error('No genome loaded');
+    }
+    
+    const content = await this.dataManager.readContent(data);
+    const tracks = await this.dataManager.loadTrack(this.genome, content, format, name, options);
+    console.log('Tracks added:', tracks.map(track => track.name));
+    this.sources.tracks.push(this.addSource(`tracks/${this.sources.tracks.length + 1}.${format}`, content, { format, name, options }));
+    
+    // 重新设置基因组数据，更新空间索引并重新渲染
+    this.circularRenderer.setGenome(this.genome);
+    this.emit('dataLoaded', this.genome);
+    
+    return tracks;
+  }
+  
+  /**
+   * 加载项目包（.zip），恢复其中的注释、序列、附加轨道和显示设置
+   */
+  async loadBundle(data: Blob | ArrayBuffer): Promise<void> {
+    const { genome, manifest, files } = await this.dataManager.loadBundle(data);
+    this.genome = genome;
+    this.sources = {
+      genome: manifest.genome,
+      sequence: manifest.sequence || null,
+      tracks: manifest.tracks || [],
+      files: files
+    };
+    
+    if (manifest.view) {
+      this.labelsVisible = manifest.view.labelsVisible;
+    }
+    
+    this.circularRenderer.setGenome(this.genome);
+    this.currentRenderer.toggleLabels(this.labelsVisible);
+    this.render();
+    this.emit('dataLoaded', this.genome);
+  }
+  
+  /**
+   * 导出项目包（.zip），包含加载时使用的原始文件以及当前轨道的颜色、可见性和顺序
+   */
+  async exportBundle(): Promise<Blob> {
+    if (!this.genome || !this.sources.genome) {
+      throw new Error('No genome loaded');
+    }
+    
+    const manifest: BundleManifest = {
+      version: ProjectBundle.VERSION,
+      genome: this.sources.genome,
+      sequence: this.sources.sequence || undefined,
+      tracks: this.sources.tracks,
+      trackSettings: ProjectBundle.collectTrackSettings(this.genome),
+      view: {
+        labelsVisible: this.labelsVisible,
+        gcWindow: this.genome.gcWindow,
+        orf: this.genome.orfOptions,
+        restriction: this.genome.restrictionOptions
+      }
+    };
+    
+    return ProjectBundle.write(manifest, this.sources.files);
+  }
+  
+  /**
+   * 取消正在进行的基因组加载
+   */
+  cancelLoading(): void {
+    this.loadController?.abort();
+    this.loadController = null;
+  }
+  
+  /**
+   * 记录一个原始文件，返回其在项目包中的条目
+   */
+  private addSource(path: string, content: string | Blob, entry: Omit<BundleFile, 'path'>): BundleFile {
+    this.sources.files.set(path, content);
+    return { path, ...entry };
+  }
+  
+  /**
+   * 修改定量轨道的绘图选项（样式、数值范围、基线）并重新渲染
+   */
+  setTrackPlotOptions(trackId: string, options: Partial<PlotOptions>): void {
+    const track = this.genome?.tracks.find(track => track.id === trackId);
+    if (!track || !track.plot) return;
+    
+    track.plot = { ...track.plot, ...options };
+    this.render();
+  }
+  
+  /**
+   * 修改 GC 含量和 GC 偏斜轨道的窗口大小和步长，立即重新计算并渲染，无需重新加载文件
+   * @param window 窗口设置，不传或窗口大小、步长不是正整数时按基因组长度自动选择
+   */
+  setGCWindow(window?: GCWindowOptions): void {
+    if (!this.genome) return;
+    
+    this.dataManager.setGCWindow(this.genome, window);
+    
+    // 重新设置基因组数据，更新空间索引并重新渲染
+    this.circularRenderer.setGenome(this.genome);
+    this.emit('dataLoaded', this.genome);
+  }
+  
+  /**
+   * 在六个读框中查找 ORF 并显示为 ORF 轨道，再次调用时按新选项替换原有结果
+   * @returns 查找到的 ORF 数量
+   */
+  findORFs(options: ORFOptions): number {
+    if (!this.genome) {
+      throw new Error('No genome loaded');
+    }
+    
+    const track = this.dataManager.findORFs(this.genome, options);
+    
+    // 重新设置基因组数据，更新空间索引并重新渲染
+    this.circularRenderer.setGenome(this.genome);
+    this.emit('dataLoaded', this.genome);
+    
+    return track.features.length;
+  }
+  
+  /**
+   * 统计内置酶和自定义酶在已加载序列上的切点数
+   */
+  digestRestrictionSites(customEnzymes: RestrictionEnzyme[]): RestrictionDigest[] {
+    if (!this.genome) {
+      throw new Error('No genome loaded');
+    }
+    
+    return this.dataManager.digestRestrictionSites(this.genome, customEnzymes);
+  }
+  
+  /**
+   * 在图上以刻度线和酶名标记选中的酶的切点，再次调用时替换原有结果，不选任何酶时移除酶切位点轨道
+   * @returns 标记的切点数量
+   */
+  showRestrictionSites(options: RestrictionOptions): number {
+    if (!this.genome) {
+      throw new Error('No genome loaded');
+    }
+    
+    const track = this.dataManager.showRestrictionSites(this.genome, options);
+    
+    // 重新设置基因组数据，更新空间索引并重新渲染
+    this.circularRenderer.setGenome(this.genome);
+    this.emit('dataLoaded', this.genome);
+    
+    return track ? track.features.length : 0;
+  }
+  
+  /**
+   * 在已加载序列的两条链上查找序列基序或引物（可含 IUPAC 简并碱基，允许错配），
+   * 匹配位点显示在临时的匹配位点轨道中，再次调用时替换原有结果
+   */
+  searchMotif(options: MotifSearchOptions): MotifSearchResult {
+    if (!this.genome) {
+      throw new Error('No genome loaded');
+    }
+    
+    const result = this.dataManager.searchMotif(this.genome, options);
+    
+    // 重新设置基因组数据，更新空间索引并重新渲染
+    this.circularRenderer.setGenome(this.genome);
+    this.emit('dataLoaded', this.genome);
+    
+    return result;
+  }
+  
+  /**
+   * 移除匹配位点轨道
+   */
+  clearMotifSearch(): void {
+    if (!this.genome) return;
+    
+    this.dataManager.clearMotifSearch(this.genome);
+    this.circularRenderer.setGenome(this.genome);
+    this.emit('dataLoaded', this.genome);
+  }
+  
+  /**
+   * 获取当前使用的 GC 窗口设置
+   */
+  getGCWindow(): GCWindowOptions | null {
+    return this.genome ? this.dataManager.getGCWindow(this.genome) : null;
   }
   
   /**
@@ -122,9 +380,17 @@ export class CGView {
     this.currentRenderer.setZoomLevel(level, point);
   }
   
-  zoomTo(): void {
-    // 实现缩放至特定区域
-    // TODO: 实现具体逻辑
+  /**
+   * 缩放到基因组上的一段区间，区间中点显示在圈图中心，区间越短放大越多
+   * 触发 zoom 事件，事件数据中的 level 为新的缩放级别
+   */
+  zoomTo(start: number, end: number): void {
+    if (!this.genome || this.genome.length <= 0) return;
+    
+    const fraction = Math.max(end - start + 1, 1) / this.genome.length;
+    const level = Math.min(RENDER_CONFIG.ZOOM_TO_MAX_LEVEL, Math.max(RENDER_CONFIG.ZOOM_TO_MIN_LEVEL, RENDER_CONFIG.ZOOM_TO_MIN_LEVEL * RENDER_CONFIG.ZOOM_TO_RANGE_FRACTION / fraction));
+    this.circularRenderer.zoomToPosition((start + end) / 2, level);
+    this.emit('zoom', { level });
   }
   
   resetView(): void {
@@ -459,10 +725,7 @@ export class CGView {
     const allTracks = this.genome.tracks;
     
     // 分离轨道：非GC轨道和GC轨道
-    const nonGCTracks = allTracks.filter(track => track.type !== 'gc_content' && track.type !== 'gc_skew_plus' && track.type !== 'gc_skew_minus');
-    const gcContentTrack = allTracks.find(track => track.type === 'gc_content');
-    const gcSkewPlusTrack = allTracks.find(track => track.type === 'gc_skew_plus');
-    const gcSkewMinusTrack = allTracks.find(track => track.type === 'gc_skew_minus');
+    const { nonGCTracks, gcContentTrack, gcSkewPlusTrack, gcSkewMinusTrack } = splitGCTracks(allTracks);
     
     // 计算可见轨道数量
     const visibleNonGCTracks = nonGCTracks.filter(track => track.visible);
@@ -488,9 +751,20 @@ export class CGView {
       svg += this.generateTrackBackgroundSVG(centerX, centerY, currentRadius, trackHeight);
       
       // 绘制特征
-      track.features.forEach((feature: any) => {
-        svg += this.generateFeatureSVG(feature, track, centerX, centerY, currentRadius, trackHeight, genomeLength);
-      });
+      if (track.plot) {
+        svg += this.generatePlotSVG(track, centerX, centerY, currentRadius, trackHeight, genomeLength);
+      } else if (TICK_TRACK_TYPES.includes(track.type)) {
+        // 酶切位点的刻度线，酶名互相重叠时省略
+        const renderedLabels: { start: number; end: number }[] = [];
+        track.features.forEach((feature: any) => {
+          svg += this.generateTickSVG(feature, track, centerX, centerY, currentRadius, trackHeight, genomeLength, renderedLabels);
+        });
+      } else {
+        track.features.forEach((feature: any) => {
+          const lane = featureLane(feature, track, currentRadius, trackHeight);
+          svg += this.generateFeatureSVG(feature, track, centerX, centerY, lane.radius, lane.height, genomeLength);
+        });
+      }
       
       currentRadius -= trackHeight + trackSpacing;
     });
@@ -552,6 +826,28 @@ export class CGView {
    * 生成特征的SVG
    */
   private generateFeatureSVG(feature: any, track: any, centerX: number, centerY: number, radius: number, trackHeight: number, genomeLength: number): string {
+    // 变异位点和预测的复制起点 / 终点绘制为棒棒糖图形
+    if (POINT_TRACK_TYPES.includes(track.type)) {
+      return this.generateVariantSVG(feature, track, centerX, centerY, radius, trackHeight, genomeLength);
+    }
+    
+    // 不连续特征按片段绘制，片段之间画内含子连接线
+    if (feature.segments && feature.segments.length > 1) {
+      const color = featureColor(feature, track);
+      const arcs = feature.segments.map((segment: any) => featureArcAngles(segment.start, segment.end, genomeLength));
+      const connectors = arcs.slice(1)
+        .map((arc: any, index: number) => ({ start: arcs[index].endAngle, end: arc.startAngle }))
+        .filter((gap: any) => gap.end > gap.start)
+        .map((gap: any) => createConnectorPath(centerX, centerY, radius - trackHeight / 2, gap.start, gap.end))
+        .join(' ');
+      const segments = arcs
+        .filter((arc: any) => arc.endAngle > arc.startAngle)
+        .map((arc: any) => createArcPath(centerX, centerY, radius, radius - trackHeight, arc.startAngle, arc.endAngle))
+        .join(' ');
+      return (connectors ? `<path d="${connectors}" fill="none" stroke="${color}" stroke-width="1"/>\n` : '') +
+        `<path d="${segments}" fill="${color}" fill-opacity="1"/>\n`;
+    }
+    
     // 计算基础角度
     let baseStartAngle = (feature.start / genomeLength) * Math.PI * 2;
     let baseEndAngle = (feature.end / genomeLength) * Math.PI * 2;
@@ -592,8 +888,77 @@ export class CGView {
     
     const largeArcFlag = angleWidth > Math.PI ? 1 : 0;
     
-    return `<path d="M ${startX1} ${startY1} A ${radius} ${radius} 0 ${largeArcFlag} 1 ${endX1} ${endY1} L ${startX2} ${startY2} A ${innerRadius} ${innerRadius} 0 ${largeArcFlag} 0 ${endX2} ${endY2} Z" fill="${track.color}" fill-opacity="1"/>
+    return `<path d="M ${startX1} ${startY1} A ${radius} ${radius} 0 ${largeArcFlag} 1 ${endX1} ${endY1} L ${startX2} ${startY2} A ${innerRadius} ${innerRadius} 0 ${largeArcFlag} 0 ${endX2} ${endY2} Z" fill="${featureColor(feature, track)}" fill-opacity="1"/>
+`;
+  }
+  
+  /**
+   * 生成变异位点的SVG
+   */
+  private generateVariantSVG(feature: any, track: any, centerX: number, centerY: number, radius: number, trackHeight: number, genomeLength: number): string {
+    const angle = ((feature.start + feature.end) / 2 / genomeLength) * Math.PI * 2;
+    const color = feature.color || track.color;
+    const headRadius = RENDER_CONFIG.VARIANT_HEAD_RADIUS;
+    const headDistance = radius - headRadius;
+    
+    const x1 = centerX + Math.cos(angle) * (radius - trackHeight);
+    const y1 = centerY + Math.sin(angle) * (radius - trackHeight);
+    const x2 = centerX + Math.cos(angle) * headDistance;
+    const y2 = centerY + Math.sin(angle) * headDistance;
+    
+    return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="${RENDER_CONFIG.VARIANT_STEM_WIDTH}"/>
+<circle cx="${x2}" cy="${y2}" r="${headRadius}" fill="${color}"/>
+`;
+  }
+  
+  /**
+   * 生成酶切位点刻度线及酶名的SVG
+   */
+  private generateTickSVG(feature: any, track: any, centerX: number, centerY: number, radius: number, trackHeight: number, genomeLength: number, renderedLabels: { start: number; end: number }[]): string {
+    const { angle, innerRadius, tickRadius, labelRadius, labelRotation } = tickGeometry(feature, genomeLength, radius, trackHeight);
+    const color = feature.color || track.color;
+    
+    const x1 = centerX + Math.cos(angle) * innerRadius;
+    const y1 = centerY + Math.sin(angle) * innerRadius;
+    const x2 = centerX + Math.cos(angle) * tickRadius;
+    const y2 = centerY + Math.sin(angle) * tickRadius;
+    let svg = `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="${RENDER_CONFIG.TICK_WIDTH}"/>
+`;
+    
+    const label = feature.attributes.enzyme || feature.name;
+    if (label && canRenderTickLabel(feature, label, genomeLength, labelRadius, renderedLabels)) {
+      const x = centerX + Math.cos(angle) * labelRadius;
+      const y = centerY + Math.sin(angle) * labelRadius;
+      svg += `<text x="${x}" y="${y}" font-size="${RENDER_CONFIG.TICK_LABEL_FONT_SIZE}" fill="#333333" text-anchor="middle" dominant-baseline="central" transform="rotate(${labelRotation * 180 / Math.PI}, ${x}, ${y})">${escapeHTML(label)}</text>
+`;
+    }
+    return svg;
+  }
+  
+  /**
+   * 生成定量轨道的SVG
+   */
+  private generatePlotSVG(track: Track, centerX: number, centerY: number, radius: number, trackHeight: number, genomeLength: number): string {
+    const plot = track.plot!;
+    const bins = buildPlotBins(track.features, plot, genomeLength, radius, trackHeight, RENDER_CONFIG.MAX_PLOT_BINS);
+    const baselineRadius = plotValueToRadius(plot.baseline, plot, radius, trackHeight);
+    let svg = '';
+    
+    if (plot.style === 'bar') {
+      const path = bins.map(bin => createArcPath(centerX, centerY, Math.max(bin.radius, baselineRadius), Math.min(bin.radius, baselineRadius), bin.startAngle, bin.endAngle)).join(' ');
+      svg += `<path d="${path}" fill="${track.color}" fill-opacity="0.8"/>
+`;
+    } else if (plot.style === 'area') {
+      svg += `<path d="${pointsToPath(plotAreaPoints(centerX, centerY, bins, baselineRadius), true)}" fill="${track.color}" fill-opacity="0.6"/>
+`;
+    } else {
+      svg += `<path d="${pointsToPath(plotBinPoints(centerX, centerY, bins), false)}" fill="none" stroke="${track.color}" stroke-width="1.5"/>
+`;
+    }
+    
+    svg += `<circle cx="${centerX}" cy="${centerY}" r="${baselineRadius}" fill="none" stroke="#999999" stroke-width="1" stroke-opacity="0.7"/>
 `;
+    return svg;
   }
   
   /**
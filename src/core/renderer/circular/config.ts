@@ -16,6 +16,21 @@ export const RENDER_CONFIG = {
   MAX_GAP_ANGLE: 0.002,
   GAP_ANGLE_RATIO: 0.05,
   
+  // 变异位点配置
+  VARIANT_HEAD_RADIUS: 3,
+  VARIANT_HOVER_HEAD_RADIUS: 5,
+  VARIANT_STEM_WIDTH: 1.5,
+  
+  // BLAST 比对圆环配置：HSP 按一致性百分比在浅色到轨道颜色之间渐变
+  BLAST_LOWER_IDENTITY: 70, // 渐变的一致性下限，低于此值的 HSP 使用最浅的颜色
+  BLAST_MIN_COLOR_WEIGHT: 0.2, // 最浅的颜色中保留的轨道颜色比例
+  
+  // 酶切位点刻度配置
+  TICK_LENGTH_RATIO: 0.4, // 刻度线自轨道内侧起占轨道高度的比例，其余空间用于酶名
+  TICK_WIDTH: 1,
+  TICK_HOVER_WIDTH: 2.5,
+  TICK_LABEL_FONT_SIZE: 9,
+  
   // 标签配置
   LABEL_RADIUS_OFFSET: 60,
   LABEL_ANGLE_WIDTH: 0.08,
@@ -42,8 +57,25 @@ export const RENDER_CONFIG = {
   GC_CONTENT_NORMALIZATION: 20,
   GC_CONTENT_MIDPOINT: 50,
   GC_SKEW_RANGE: 0.5,
+  
+  // 定量轨道配置
+  MAX_PLOT_BINS: 2000,
+  
+  // 缩放到区间的配置：区间越短放大越多
+  ZOOM_TO_MIN_LEVEL: 2,
+  ZOOM_TO_MAX_LEVEL: 10,
+  ZOOM_TO_RANGE_FRACTION: 0.1, // 覆盖基因组这一比例的区间放大到最小倍数
 };
 
+// 按单个位置绘制为棒棒糖图形的轨道类型（VCF 变异位点、预测的复制起点 / 终点）
+export const POINT_TRACK_TYPES = ['variant', 'replication_prediction'];
+
+// ORF 轨道按读框分为六条分道，由外到内依次对应的读框
+export const ORF_LANES = ['+1', '+2', '+3', '-1', '-2', '-3'];
+
+// 按单个位置绘制为刻度线并标注名称的轨道类型（限制性酶切位点）
+export const TICK_TRACK_TYPES = ['restriction_site'];
+
 // 颜色常量
 export const COLORS = {
   BACKGROUND: 0xffffff,
@@ -1,8 +1,8 @@
 import * as PIXI from 'pixi.js';
 import * as d3 from 'd3';
 import type { Feature, Track } from '../../../types';
-import { RENDER_CONFIG } from './config';
-import { hexToNumber, createArcPath, createAnnulusPath, mergeGCSkewFeatures } from './utils';
+import { RENDER_CONFIG, COLORS, POINT_TRACK_TYPES, TICK_TRACK_TYPES } from './config';
+import { hexToNumber, createArcPath, createAnnulusPath, createConnectorPath, featureArcAngles, mergeGCSkewFeatures, buildPlotBins, plotValueToRadius, plotBinPoints, plotAreaPoints, pointsToPath, featureLane, tickGeometry, canRenderTickLabel, isGCRingTrack, featureColor } from './utils';
 
 export class FeatureRenderer {
   private centerX: number;
@@ -12,6 +12,9 @@ export class FeatureRenderer {
   private lodManager: any;
   private onHover?: (feature: any) => void;
   private highlightedFeature: any = null;
+  private highlightedFamily: Set<Feature> = new Set(); // 高亮的基因及其所有子特征
+  private emphasisHandlers: Map<Feature, ((emphasized: boolean) => void)[]> = new Map(); // 本次渲染中各特征图形的突出显示函数
+  private renderedTickLabels: { start: number; end: number }[] = []; // 本次渲染中已绘制的刻度线名称的角度范围
   
   constructor(centerX: number, centerY: number, radius: number, zoomLevel: number, lodManager: any, onHover?: (feature: any) => void) {
     this.centerX = centerX;
@@ -33,8 +36,9 @@ export class FeatureRenderer {
    * 高亮显示特定基因
    */
   highlightFeature(feature: any): void {
-    // 更新高亮的基因
+    // 更新高亮的基因，其转录本、CDS 等子特征一并高亮
     this.highlightedFeature = feature;
+    this.highlightedFamily = new Set(feature ? this.getFeatureFamily(feature) : []);
     // 触发hover回调，显示悬浮提示
     if (this.onHover) {
       this.onHover(feature);
@@ -42,6 +46,64 @@ export class FeatureRenderer {
     // 这里可以触发重新渲染，确保高亮效果能够立即显示
   }
   
+  /**
+   * 获取特征及其所有子特征（按 Parent 属性建立的层级）
+   */
+  private getFeatureFamily(feature: Feature): Feature[] {
+    const family: Feature[] = [feature];
+    const visited: Set<Feature> = new Set(family);
+    for (let i = 0; i < family.length; i++) {
+      (family[i].children || []).forEach(child => {
+        if (!visited.has(child)) {
+          visited.add(child);
+          family.push(child);
+        }
+      });
+    }
+    return family;
+  }
+  
+  /**
+   * 检查特征是否为当前高亮的基因或其子特征
+   */
+  private isHighlighted(feature: Feature): boolean {
+    const highlighted = this.highlightedFeature;
+    if (!highlighted) return false;
+    return this.highlightedFamily.has(feature) ||
+      (highlighted.id && feature.id === highlighted.id) ||
+      (highlighted.name && feature.name === highlighted.name) ||
+      (feature.start === highlighted.start && feature.end === highlighted.end);
+  }
+  
+  /**
+   * 计算特征各部分的绘制角度：不连续特征每个片段一段，连续特征为整体一段
+   */
+  private featureArcs(feature: Feature, startAngle: number, endAngle: number, genomeLength: number): { startAngle: number; endAngle: number }[] {
+    if (feature.segments && feature.segments.length > 1) {
+      return feature.segments.map(segment => featureArcAngles(segment.start, segment.end, genomeLength));
+    }
+    return [{ startAngle, endAngle }];
+  }
+  
+  /**
+   * 记录特征图形的突出显示函数，悬停时同一层级的特征一起突出显示
+   */
+  private registerEmphasis(feature: Feature, handler: (emphasized: boolean) => void): void {
+    const handlers = this.emphasisHandlers.get(feature) || [];
+    handlers.push(handler);
+    this.emphasisHandlers.set(feature, handlers);
+  }
+  
+  /**
+   * 突出显示或恢复特征及其所有子特征；恢复时仍保留高亮特征的样式
+   */
+  private emphasizeFamily(feature: Feature, emphasized: boolean): void {
+    this.getFeatureFamily(feature).forEach(member => {
+      const memberEmphasized = emphasized || this.isHighlighted(member);
+      (this.emphasisHandlers.get(member) || []).forEach(handler => handler(memberEmphasized));
+    });
+  }
+  
   /**
    * 计算轨道高度
    */
@@ -58,18 +120,28 @@ export class FeatureRenderer {
    * 渲染非GC轨道（Canvas）
    */
   renderCanvasNonGCTracks(tracks: Track[], currentRadius: number, trackHeight: number, trackSpacing: number, genomeLength: number, featureContainer: PIXI.Container | undefined): number {
+    // 重新绘制后旧图形失效
+    this.emphasisHandlers.clear();
+    this.renderedTickLabels = [];
     tracks.forEach((track) => {
       // 绘制轨道背景圆圈，添加border
       this.renderCanvasTrackBackground(currentRadius, trackHeight, track.color, track.type, featureContainer);
       
-      // 使用 LOD 管理器过滤特征
-      const visibleFeatures = this.lodManager.filterFeatures(track.features, this.zoomLevel);
-      
-      visibleFeatures.forEach((feature: Feature) => {
-        // 添加track信息到feature对象，以便在hover事件中使用
-        feature.track = track;
-        this.renderCanvasFeature(feature, track, currentRadius, trackHeight, genomeLength, featureContainer);
-      });
+      if (track.plot) {
+        // 定量轨道按数值绘制
+        this.renderCanvasPlotTrack(track, currentRadius, trackHeight, genomeLength, featureContainer);
+      } else {
+        // 使用 LOD 管理器过滤特征
+        const visibleFeatures = this.lodManager.filterFeatures(track.features, this.zoomLevel);
+        
+        visibleFeatures.forEach((feature: Feature) => {
+          // 添加track信息到feature对象，以便在hover事件中使用
+          feature.track = track;
+          // ORF 轨道的特征按读框画在各自的分道中
+          const lane = featureLane(feature, track, currentRadius, trackHeight);
+          this.renderCanvasFeature(feature, track, lane.radius, lane.height, genomeLength, featureContainer);
+        });
+      }
       
       currentRadius -= trackHeight + trackSpacing;
     });
@@ -80,24 +152,115 @@ export class FeatureRenderer {
    * 渲染非GC轨道（SVG）
    */
   renderSvgNonGCTracks(tracks: Track[], currentRadius: number, trackHeight: number, trackSpacing: number, genomeLength: number, svgContainer: d3.Selection<SVGElement, unknown, null, undefined> | undefined): number {
+    // 重新绘制后旧图形失效
+    this.emphasisHandlers.clear();
+    this.renderedTickLabels = [];
     tracks.forEach((track) => {
       // 绘制轨道背景圆圈，添加border
       this.renderSvgTrackBackground(currentRadius, trackHeight, track.color, track.type, svgContainer);
       
-      // 使用 LOD 管理器过滤特征
-      const visibleFeatures = this.lodManager.filterFeatures(track.features, this.zoomLevel);
-      
-      visibleFeatures.forEach((feature: Feature) => {
-        // 添加track信息到feature对象，以便在hover事件中使用
-        feature.track = track;
-        this.renderSvgFeature(feature, track, currentRadius, trackHeight, genomeLength, svgContainer);
-      });
+      if (track.plot) {
+        // 定量轨道按数值绘制
+        this.renderSvgPlotTrack(track, currentRadius, trackHeight, genomeLength, svgContainer);
+      } else {
+        // 使用 LOD 管理器过滤特征
+        const visibleFeatures = this.lodManager.filterFeatures(track.features, this.zoomLevel);
+        
+        visibleFeatures.forEach((feature: Feature) => {
+          // 添加track信息到feature对象，以便在hover事件中使用
+          feature.track = track;
+          // ORF 轨道的特征按读框画在各自的分道中
+          const lane = featureLane(feature, track, currentRadius, trackHeight);
+          this.renderSvgFeature(feature, track, lane.radius, lane.height, genomeLength, svgContainer);
+        });
+      }
       
       currentRadius -= trackHeight + trackSpacing;
     });
     return currentRadius;
   }
   
+  /**
+   * 渲染定量轨道（Canvas）
+   * 按轨道的绘图选项绘制柱状图、折线图或面积图，数值在 min/max 之间映射到轨道内外侧
+   */
+  renderCanvasPlotTrack(track: Track, radius: number, trackHeight: number, genomeLength: number, featureContainer?: PIXI.Container): void {
+    const plot = track.plot!;
+    const color = hexToNumber(track.color);
+    const bins = buildPlotBins(track.features, plot, genomeLength, radius, trackHeight, RENDER_CONFIG.MAX_PLOT_BINS);
+    const baselineRadius = plotValueToRadius(plot.baseline, plot, radius, trackHeight);
+    const graphics = new PIXI.Graphics();
+    
+    if (plot.style === 'bar') {
+      bins.forEach(bin => {
+        graphics.arc(this.centerX, this.centerY, Math.max(bin.radius, baselineRadius), bin.startAngle, bin.endAngle, false);
+        graphics.arc(this.centerX, this.centerY, Math.min(bin.radius, baselineRadius), bin.endAngle, bin.startAngle, true);
+        graphics.fill({ color: color, alpha: 0.8 });
+      });
+    } else if (bins.length > 0) {
+      const points = plot.style === 'area' ? plotAreaPoints(this.centerX, this.centerY, bins, baselineRadius) : plotBinPoints(this.centerX, this.centerY, bins);
+      graphics.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(point => graphics.lineTo(point.x, point.y));
+      if (plot.style === 'area') {
+        graphics.closePath();
+        graphics.fill({ color: color, alpha: 0.6 });
+      } else {
+        graphics.stroke({ width: 1.5, color: color });
+      }
+    }
+    
+    // 基线
+    graphics.circle(this.centerX, this.centerY, baselineRadius);
+    graphics.stroke({ width: 1, color: 0x999999, alpha: 0.7 });
+    
+    featureContainer?.addChild(graphics);
+  }
+  
+  /**
+   * 渲染定量轨道（SVG）
+   * 按轨道的绘图选项绘制柱状图、折线图或面积图，数值在 min/max 之间映射到轨道内外侧
+   */
+  renderSvgPlotTrack(track: Track, radius: number, trackHeight: number, genomeLength: number, svgContainer?: d3.Selection<SVGElement, unknown, null, undefined>): void {
+    if (!svgContainer) return;
+    
+    const plot = track.plot!;
+    // 确保track.color是字符串形式的颜色值
+    const color = typeof track.color === 'string' ? track.color : `#${(track.color as number).toString(16).padStart(6, '0')}`;
+    const bins = buildPlotBins(track.features, plot, genomeLength, radius, trackHeight, RENDER_CONFIG.MAX_PLOT_BINS);
+    const baselineRadius = plotValueToRadius(plot.baseline, plot, radius, trackHeight);
+    const container = svgContainer.select('g#featureContainer');
+    
+    if (plot.style === 'bar') {
+      // 所有柱子合并为一条路径，减少 DOM 节点
+      const path = bins.map(bin => createArcPath(this.centerX, this.centerY, Math.max(bin.radius, baselineRadius), Math.min(bin.radius, baselineRadius), bin.startAngle, bin.endAngle)).join(' ');
+      container.append('path')
+        .attr('d', path)
+        .attr('fill', color)
+        .attr('fill-opacity', 0.8);
+    } else if (plot.style === 'area') {
+      container.append('path')
+        .attr('d', pointsToPath(plotAreaPoints(this.centerX, this.centerY, bins, baselineRadius), true))
+        .attr('fill', color)
+        .attr('fill-opacity', 0.6);
+    } else {
+      container.append('path')
+        .attr('d', pointsToPath(plotBinPoints(this.centerX, this.centerY, bins), false))
+        .attr('fill', 'none')
+        .attr('stroke', color)
+        .attr('stroke-width', 1.5);
+    }
+    
+    // 基线
+    container.append('circle')
+      .attr('cx', this.centerX)
+      .attr('cy', this.centerY)
+      .attr('r', baselineRadius)
+      .attr('fill', 'none')
+      .attr('stroke', '#999999')
+      .attr('stroke-width', 1)
+      .attr('stroke-opacity', 0.7);
+  }
+  
   /**
    * 渲染GC Content轨道（Canvas）
    */
@@ -309,106 +472,84 @@ export class FeatureRenderer {
    * 渲染单个特征（Canvas）
    */
   renderCanvasFeature(feature: Feature, track: Track, radius: number, trackHeight: number, genomeLength: number, featureContainer?: PIXI.Container): void {
-    // 计算基础角度
-    let baseStartAngle = (feature.start / genomeLength) * Math.PI * 2;
-    let baseEndAngle = (feature.end / genomeLength) * Math.PI * 2;
-    let baseAngleWidth = baseEndAngle - baseStartAngle;
-    
-    // 确保即使是非常短的基因也能被渲染
-    // 如果基因角度宽度太小，设置一个最小角度宽度
-    const minAngleWidth = RENDER_CONFIG.MIN_ANGLE_WIDTH; // 最小角度宽度，确保短基因也能被看到
-    if (baseAngleWidth < minAngleWidth) {
-      // 对于短基因，以其中心为基准，向两边扩展到最小角度宽度
-      const centerAngle = (baseStartAngle + baseEndAngle) / 2;
-      const halfMinAngle = minAngleWidth / 2;
-      baseStartAngle = centerAngle - halfMinAngle;
-      baseEndAngle = centerAngle + halfMinAngle;
-      baseAngleWidth = minAngleWidth;
+    // 变异位点和预测的复制起点 / 终点绘制为棒棒糖图形，不拉伸到最小角度宽度
+    if (POINT_TRACK_TYPES.includes(track.type)) {
+      this.renderCanvasVariantFeature(feature, track, radius, trackHeight, genomeLength, featureContainer);
+      return;
     }
     
-    // 添加缝隙：为每个特征的起始和结束位置添加小的角度偏移
-    // 根据特征的角度宽度动态调整缝隙大小
-    const minGapAngle = RENDER_CONFIG.MIN_GAP_ANGLE; // 最小缝隙大小
-    const maxGapAngle = RENDER_CONFIG.MAX_GAP_ANGLE; // 最大缝隙大小
-    // 缝隙大小与特征角度宽度成正比，但不超过最大值
-    const gapAngle = Math.min(maxGapAngle, Math.max(minGapAngle, baseAngleWidth * RENDER_CONFIG.GAP_ANGLE_RATIO));
+    // 酶切位点绘制为刻度线并标注酶名
+    if (TICK_TRACK_TYPES.includes(track.type)) {
+      this.renderCanvasTickFeature(feature, track, radius, trackHeight, genomeLength, featureContainer);
+      return;
+    }
     
-    // 计算实际绘制的角度
-    const startAngle = baseStartAngle + gapAngle;
-    const endAngle = baseEndAngle - gapAngle;
+    // 计算绘制角度（短特征扩展到最小宽度，两端留出缝隙）
+    const { startAngle, endAngle } = featureArcAngles(feature.start, feature.end, genomeLength);
     const angleWidth = endAngle - startAngle;
     
     // 检查是否是GC相关轨道
-    if (track.type === 'gc_content' || track.type === 'gc_skew_plus' || track.type === 'gc_skew_minus') {
+    if (isGCRingTrack(track)) {
       this.renderCanvasGCFeature(feature, track, radius, trackHeight, genomeLength, startAngle, endAngle, angleWidth, featureContainer);
     } else {
       // 常规轨道渲染
           // 只要角度宽度大于0就绘制
           if (angleWidth > 0) {
+            // 特征自身的颜色（如 BED itemRgb）优先于轨道颜色
+            const fillColor = featureColor(feature, track);
+            const arcs = this.featureArcs(feature, startAngle, endAngle, genomeLength);
             const graphics = new PIXI.Graphics();
-            graphics.arc(this.centerX, this.centerY, radius, startAngle, endAngle, false);
-            graphics.arc(this.centerX, this.centerY, radius - trackHeight, endAngle, startAngle, true);
-            graphics.fill({ color: hexToNumber(track.color), alpha: 1 });
+            // 按是否突出显示绘制：突出显示时加粗、变长，无边框
+            const draw = (emphasized: boolean) => {
+              graphics.clear();
+              // 片段之间的内含子连接线画在片段下层
+              for (let i = 0; i < arcs.length - 1; i++) {
+                const connectorRadius = radius - trackHeight / 2;
+                const connectorStart = arcs[i].endAngle;
+                const connectorEnd = arcs[i + 1].startAngle;
+                if (connectorEnd <= connectorStart) continue;
+                graphics.moveTo(this.centerX + Math.cos(connectorStart) * connectorRadius, this.centerY + Math.sin(connectorStart) * connectorRadius);
+                graphics.arc(this.centerX, this.centerY, connectorRadius, connectorStart, connectorEnd, false);
+                graphics.stroke({ width: 1, color: hexToNumber(fillColor) });
+              }
+              const outerRadius = emphasized ? radius + 2 : radius;
+              const innerRadius = emphasized ? radius - trackHeight - 2 : radius - trackHeight;
+              arcs.forEach((arc, index) => {
+                // 突出显示时整体向两端延长
+                const arcStart = emphasized && index === 0 ? arc.startAngle - 0.01 : arc.startAngle;
+                const arcEnd = emphasized && index === arcs.length - 1 ? arc.endAngle + 0.01 : arc.endAngle;
+                graphics.arc(this.centerX, this.centerY, outerRadius, arcStart, arcEnd, false);
+                graphics.arc(this.centerX, this.centerY, innerRadius, arcEnd, arcStart, true);
+                graphics.fill({ color: hexToNumber(fillColor), alpha: 1 });
+              });
+            };
+            draw(false);
             
             // 添加交互 - 只在gene特征上添加
             if (feature.type === 'gene' || feature.type === 'CDS' || feature.name || feature.id) {
               graphics.eventMode = 'dynamic';
               graphics.cursor = 'pointer';
               
-              // 检查是否是高亮的基因
-              const isHighlighted = this.highlightedFeature && 
-                ((this.highlightedFeature.id && feature.id === this.highlightedFeature.id) || 
-                 (this.highlightedFeature.name && feature.name === this.highlightedFeature.name) ||
-                 (feature.start === this.highlightedFeature.start && feature.end === this.highlightedFeature.end));
+              this.registerEmphasis(feature, draw);
               
-              // 如果是高亮的基因，使用加粗加长的样式
-              if (isHighlighted) {
-                graphics.clear();
-                const extendedStartAngle = startAngle - 0.01;
-                const extendedEndAngle = endAngle + 0.01;
-                graphics.arc(this.centerX, this.centerY, radius + 2, extendedStartAngle, extendedEndAngle, false);
-                graphics.arc(this.centerX, this.centerY, radius - trackHeight - 2, extendedEndAngle, extendedStartAngle, true);
-                graphics.fill({ color: hexToNumber(track.color), alpha: 1 });
-                graphics.lineStyle(0); // 移除边框
+              // 如果是高亮的基因（或其子特征），使用加粗加长的样式
+              if (this.isHighlighted(feature)) {
+                draw(true);
               }
               
               graphics.on('pointerover', () => {
-                // 高亮显示基因：加粗、变长，无边框
-                graphics.clear();
-                // 绘制变长的基因特征
-                const extendedStartAngle = startAngle - 0.01;
-                const extendedEndAngle = endAngle + 0.01;
-                graphics.arc(this.centerX, this.centerY, radius + 2, extendedStartAngle, extendedEndAngle, false);
-                graphics.arc(this.centerX, this.centerY, radius - trackHeight - 2, extendedEndAngle, extendedStartAngle, true);
-                graphics.fill({ color: hexToNumber(track.color), alpha: 1 });
-                graphics.lineStyle(0); // 移除边框
+                // 高亮显示基因及其转录本、CDS 等子特征
+                this.emphasizeFamily(feature, true);
                 // 触发hover回调，显示悬浮提示
                 if (this.onHover) {
                   this.onHover(feature);
                 }
               });
               graphics.on('pointerout', () => {
-                // 检查是否是高亮的基因
-                const isHighlighted = this.highlightedFeature && 
-                  ((this.highlightedFeature.id && feature.id === this.highlightedFeature.id) || 
-                   (this.highlightedFeature.name && feature.name === this.highlightedFeature.name) ||
-                   (feature.start === this.highlightedFeature.start && feature.end === this.highlightedFeature.end));
-                
                 // 恢复原始样式，除非是高亮的基因
-                graphics.clear();
-                if (isHighlighted) {
-                  const extendedStartAngle = startAngle - 0.01;
-                  const extendedEndAngle = endAngle + 0.01;
-                  graphics.arc(this.centerX, this.centerY, radius + 2, extendedStartAngle, extendedEndAngle, false);
-                  graphics.arc(this.centerX, this.centerY, radius - trackHeight - 2, extendedEndAngle, extendedStartAngle, true);
-                } else {
-                  graphics.arc(this.centerX, this.centerY, radius, startAngle, endAngle, false);
-                  graphics.arc(this.centerX, this.centerY, radius - trackHeight, endAngle, startAngle, true);
-                }
-                graphics.fill({ color: hexToNumber(track.color), alpha: 1 });
-                graphics.lineStyle(0);
+                this.emphasizeFamily(feature, false);
                 // 触发hover回调，隐藏悬浮提示
-                if (this.onHover && !isHighlighted) {
+                if (this.onHover && !this.isHighlighted(feature)) {
                   this.onHover(null);
                 }
               });
@@ -429,111 +570,95 @@ export class FeatureRenderer {
   renderSvgFeature(feature: Feature, track: Track, radius: number, trackHeight: number, genomeLength: number, svgContainer?: d3.Selection<SVGElement, unknown, null, undefined>): void {
     if (!svgContainer) return;
     
-    // 计算基础角度
-    let baseStartAngle = (feature.start / genomeLength) * Math.PI * 2;
-    let baseEndAngle = (feature.end / genomeLength) * Math.PI * 2;
-    let baseAngleWidth = baseEndAngle - baseStartAngle;
-    
-    // 确保即使是非常短的基因也能被渲染
-    // 如果基因角度宽度太小，设置一个最小角度宽度
-    const minAngleWidth = RENDER_CONFIG.MIN_ANGLE_WIDTH; // 最小角度宽度，确保短基因也能被看到
-    if (baseAngleWidth < minAngleWidth) {
-      // 对于短基因，以其中心为基准，向两边扩展到最小角度宽度
-      const centerAngle = (baseStartAngle + baseEndAngle) / 2;
-      const halfMinAngle = minAngleWidth / 2;
-      baseStartAngle = centerAngle - halfMinAngle;
-      baseEndAngle = centerAngle + halfMinAngle;
-      baseAngleWidth = minAngleWidth;
+    // 变异位点和预测的复制起点 / 终点绘制为棒棒糖图形，不拉伸到最小角度宽度
+    if (POINT_TRACK_TYPES.includes(track.type)) {
+      this.renderSvgVariantFeature(feature, track, radius, trackHeight, genomeLength, svgContainer);
+      return;
     }
     
-    // 添加缝隙：为每个特征的起始和结束位置添加小的角度偏移
-    // 根据特征的角度宽度动态调整缝隙大小
-    const minGapAngle = RENDER_CONFIG.MIN_GAP_ANGLE; // 最小缝隙大小
-    const maxGapAngle = RENDER_CONFIG.MAX_GAP_ANGLE; // 最大缝隙大小
-    // 缝隙大小与特征角度宽度成正比，但不超过最大值
-    const gapAngle = Math.min(maxGapAngle, Math.max(minGapAngle, baseAngleWidth * RENDER_CONFIG.GAP_ANGLE_RATIO));
+    // 酶切位点绘制为刻度线并标注酶名
+    if (TICK_TRACK_TYPES.includes(track.type)) {
+      this.renderSvgTickFeature(feature, track, radius, trackHeight, genomeLength, svgContainer);
+      return;
+    }
     
-    // 计算实际绘制的角度
-    const startAngle = baseStartAngle + gapAngle;
-    const endAngle = baseEndAngle - gapAngle;
+    // 计算绘制角度（短特征扩展到最小宽度，两端留出缝隙）
+    const { startAngle, endAngle } = featureArcAngles(feature.start, feature.end, genomeLength);
     const angleWidth = endAngle - startAngle;
     
     // 检查是否是GC相关轨道
-    if (track.type === 'gc_content' || track.type === 'gc_skew_plus' || track.type === 'gc_skew_minus') {
+    if (isGCRingTrack(track)) {
       this.renderSvgGCFeature(feature, track, radius, trackHeight, genomeLength, startAngle, endAngle, angleWidth, svgContainer);
     } else {
       // 常规轨道渲染
           // 只要角度宽度大于0就绘制
           if (angleWidth > 0) {
-            // 确保track.color是字符串形式的颜色值
-            const fillColor = typeof track.color === 'string' ? track.color : `#${(track.color as number).toString(16).padStart(6, '0')}`;
-            const path = createArcPath(this.centerX, this.centerY, radius, radius - trackHeight, startAngle, endAngle);
+            // 特征自身的颜色优先，轨道颜色转换为字符串形式的颜色值
+            const fillColor = featureColor(feature, track);
+            const arcs = this.featureArcs(feature, startAngle, endAngle, genomeLength);
+            
+            // 片段之间的内含子连接线，先添加以显示在片段下层
+            if (arcs.length > 1) {
+              const connectorPath = arcs.slice(1)
+                .map((arc, index) => ({ start: arcs[index].endAngle, end: arc.startAngle }))
+                .filter(gap => gap.end > gap.start)
+                .map(gap => createConnectorPath(this.centerX, this.centerY, radius - trackHeight / 2, gap.start, gap.end))
+                .join(' ');
+              svgContainer.select('g#featureContainer')
+                .append('path')
+                .attr('d', connectorPath)
+                .attr('fill', 'none')
+                .attr('stroke', fillColor)
+                .attr('stroke-width', 1)
+                .style('pointer-events', 'none');
+            }
+            
+            // 所有片段合并为一个路径，悬停和高亮时作为整体
+            const segmentsPath = (outerRadius: number, innerRadius: number, extension: number) => arcs
+              .map((arc, index) => createArcPath(this.centerX, this.centerY, outerRadius, innerRadius,
+                index === 0 ? arc.startAngle - extension : arc.startAngle,
+                index === arcs.length - 1 ? arc.endAngle + extension : arc.endAngle))
+              .join(' ');
             const featureElement = svgContainer.select('g#featureContainer')
               .append('path')
-              .attr('d', path)
+              .attr('d', segmentsPath(radius, radius - trackHeight, 0))
               .attr('fill', fillColor)
               .attr('fill-opacity', 1);
             
             // 添加交互 - 只在gene特征上添加
             if (feature.type === 'gene' || feature.type === 'CDS' || feature.name || feature.id) {
-              // 检查是否是高亮的基因
-              const isHighlighted = this.highlightedFeature && 
-                ((this.highlightedFeature.id && feature.id === this.highlightedFeature.id) || 
-                 (this.highlightedFeature.name && feature.name === this.highlightedFeature.name) ||
-                 (feature.start === this.highlightedFeature.start && feature.end === this.highlightedFeature.end));
-              
-              // 如果是高亮的基因，使用加粗加长的样式
-              if (isHighlighted) {
-                const extendedStartAngle = startAngle - 0.01;
-                const extendedEndAngle = endAngle + 0.01;
-                const extendedPath = createArcPath(this.centerX, this.centerY, radius + 2, radius - trackHeight - 2, extendedStartAngle, extendedEndAngle);
+              // 按是否突出显示设置路径：突出显示时加粗、变长，无边框
+              const draw = (emphasized: boolean) => {
+                const arcPath = emphasized
+                  ? segmentsPath(radius + 2, radius - trackHeight - 2, 0.01)
+                  : segmentsPath(radius, radius - trackHeight, 0);
                 featureElement
-                  .attr('d', extendedPath)
+                  .attr('d', arcPath)
                   .attr('fill-opacity', 1)
                   .attr('stroke', 'none'); // 移除边框
+              };
+              this.registerEmphasis(feature, draw);
+              
+              // 如果是高亮的基因（或其子特征），使用加粗加长的样式
+              if (this.isHighlighted(feature)) {
+                draw(true);
               }
               
               featureElement
                 .style('cursor', 'pointer')
                 .on('mouseover', () => {
-                  // 高亮显示基因：加粗、变长，无边框
-                  const extendedStartAngle = startAngle - 0.01;
-                  const extendedEndAngle = endAngle + 0.01;
-                  const extendedPath = createArcPath(this.centerX, this.centerY, radius + 2, radius - trackHeight - 2, extendedStartAngle, extendedEndAngle);
-                  featureElement
-                    .attr('d', extendedPath)
-                    .attr('fill-opacity', 1)
-                    .attr('stroke', 'none'); // 移除边框
+                  // 高亮显示基因及其转录本、CDS 等子特征
+                  this.emphasizeFamily(feature, true);
                   // 触发hover回调，显示悬浮提示
                   if (this.onHover) {
                     this.onHover(feature);
                   }
                 })
                 .on('mouseout', () => {
-                  // 检查是否是高亮的基因
-                  const isHighlighted = this.highlightedFeature && 
-                    ((this.highlightedFeature.id && feature.id === this.highlightedFeature.id) || 
-                     (this.highlightedFeature.name && feature.name === this.highlightedFeature.name) ||
-                     (feature.start === this.highlightedFeature.start && feature.end === this.highlightedFeature.end));
-                  
                   // 恢复原始样式，除非是高亮的基因
-                  if (isHighlighted) {
-                    const extendedStartAngle = startAngle - 0.01;
-                    const extendedEndAngle = endAngle + 0.01;
-                    const extendedPath = createArcPath(this.centerX, this.centerY, radius + 2, radius - trackHeight - 2, extendedStartAngle, extendedEndAngle);
-                    featureElement
-                      .attr('d', extendedPath)
-                      .attr('fill-opacity', 1)
-                      .attr('stroke', 'none'); // 移除边框
-                  } else {
-                    const originalPath = createArcPath(this.centerX, this.centerY, radius, radius - trackHeight, startAngle, endAngle);
-                    featureElement
-                      .attr('d', originalPath)
-                      .attr('fill-opacity', 1)
-                      .attr('stroke', 'none');
-                  }
+                  this.emphasizeFamily(feature, false);
                   // 触发hover回调，隐藏悬浮提示
-                  if (this.onHover && !isHighlighted) {
+                  if (this.onHover && !this.isHighlighted(feature)) {
                     this.onHover(null);
                   }
                 })
@@ -546,11 +671,220 @@ export class FeatureRenderer {
     }
   }
   
+  /**
+   * 渲染变异位点（Canvas）
+   * 从轨道内侧画一条径向短线，顶端为圆点
+   */
+  renderCanvasVariantFeature(feature: Feature, track: Track, radius: number, trackHeight: number, genomeLength: number, featureContainer?: PIXI.Container): void {
+    const angle = ((feature.start + feature.end) / 2 / genomeLength) * Math.PI * 2;
+    const color = hexToNumber(feature.color || track.color);
+    const graphics = new PIXI.Graphics();
+    
+    const drawGlyph = (headRadius: number) => {
+      const headDistance = radius - headRadius;
+      graphics.clear();
+      graphics.moveTo(this.centerX + Math.cos(angle) * (radius - trackHeight), this.centerY + Math.sin(angle) * (radius - trackHeight));
+      graphics.lineTo(this.centerX + Math.cos(angle) * headDistance, this.centerY + Math.sin(angle) * headDistance);
+      graphics.stroke({ width: RENDER_CONFIG.VARIANT_STEM_WIDTH, color: color });
+      graphics.circle(this.centerX + Math.cos(angle) * headDistance, this.centerY + Math.sin(angle) * headDistance, headRadius);
+      graphics.fill({ color: color, alpha: 1 });
+    };
+    
+    const isHighlighted = () => this.isHighlightedVariant(feature);
+    drawGlyph(isHighlighted() ? RENDER_CONFIG.VARIANT_HOVER_HEAD_RADIUS : RENDER_CONFIG.VARIANT_HEAD_RADIUS);
+    
+    graphics.eventMode = 'dynamic';
+    graphics.cursor = 'pointer';
+    graphics.on('pointerover', () => {
+      // 放大圆点并显示悬浮提示
+      drawGlyph(RENDER_CONFIG.VARIANT_HOVER_HEAD_RADIUS);
+      if (this.onHover) {
+        this.onHover(feature);
+      }
+    });
+    graphics.on('pointerout', () => {
+      drawGlyph(isHighlighted() ? RENDER_CONFIG.VARIANT_HOVER_HEAD_RADIUS : RENDER_CONFIG.VARIANT_HEAD_RADIUS);
+      if (this.onHover && !isHighlighted()) {
+        this.onHover(null);
+      }
+    });
+    
+    featureContainer?.addChild(graphics);
+  }
+  
+  /**
+   * 渲染变异位点（SVG）
+   * 从轨道内侧画一条径向短线，顶端为圆点
+   */
+  renderSvgVariantFeature(feature: Feature, track: Track, radius: number, trackHeight: number, genomeLength: number, svgContainer?: d3.Selection<SVGElement, unknown, null, undefined>): void {
+    if (!svgContainer) return;
+    
+    const angle = ((feature.start + feature.end) / 2 / genomeLength) * Math.PI * 2;
+    const color = feature.color || (typeof track.color === 'string' ? track.color : `#${(track.color as number).toString(16).padStart(6, '0')}`);
+    
+    const glyph = svgContainer.select('g#featureContainer')
+      .append('g')
+      .style('cursor', 'pointer');
+    
+    const stem = glyph.append('line')
+      .attr('x1', this.centerX + Math.cos(angle) * (radius - trackHeight))
+      .attr('y1', this.centerY + Math.sin(angle) * (radius - trackHeight))
+      .attr('stroke', color)
+      .attr('stroke-width', RENDER_CONFIG.VARIANT_STEM_WIDTH);
+    
+    const head = glyph.append('circle')
+      .attr('fill', color);
+    
+    // 与 Canvas 相同，圆点外缘贴住轨道外侧，放大时圆心随之内移
+    const drawGlyph = (headRadius: number) => {
+      const headDistance = radius - headRadius;
+      stem
+        .attr('x2', this.centerX + Math.cos(angle) * headDistance)
+        .attr('y2', this.centerY + Math.sin(angle) * headDistance);
+      head
+        .attr('cx', this.centerX + Math.cos(angle) * headDistance)
+        .attr('cy', this.centerY + Math.sin(angle) * headDistance)
+        .attr('r', headRadius);
+    };
+    
+    const isHighlighted = () => this.isHighlightedVariant(feature);
+    drawGlyph(isHighlighted() ? RENDER_CONFIG.VARIANT_HOVER_HEAD_RADIUS : RENDER_CONFIG.VARIANT_HEAD_RADIUS);
+    
+    glyph
+      .on('mouseover', () => {
+        // 放大圆点并显示悬浮提示
+        drawGlyph(RENDER_CONFIG.VARIANT_HOVER_HEAD_RADIUS);
+        if (this.onHover) {
+          this.onHover(feature);
+        }
+      })
+      .on('mouseout', () => {
+        drawGlyph(isHighlighted() ? RENDER_CONFIG.VARIANT_HOVER_HEAD_RADIUS : RENDER_CONFIG.VARIANT_HEAD_RADIUS);
+        if (this.onHover && !isHighlighted()) {
+          this.onHover(null);
+        }
+      });
+  }
+  
+  /**
+   * 渲染酶切位点（Canvas）
+   * 在切点处从轨道内侧画一条径向刻度线，酶名沿圆周方向写在刻度线外侧，与已绘制的酶名重叠时省略
+   */
+  renderCanvasTickFeature(feature: Feature, track: Track, radius: number, trackHeight: number, genomeLength: number, featureContainer?: PIXI.Container): void {
+    const { angle, innerRadius, tickRadius, labelRadius, labelRotation } = tickGeometry(feature, genomeLength, radius, trackHeight);
+    const color = hexToNumber(feature.color || track.color);
+    const graphics = new PIXI.Graphics();
+    
+    const drawTick = (width: number) => {
+      graphics.clear();
+      graphics.moveTo(this.centerX + Math.cos(angle) * innerRadius, this.centerY + Math.sin(angle) * innerRadius);
+      graphics.lineTo(this.centerX + Math.cos(angle) * tickRadius, this.centerY + Math.sin(angle) * tickRadius);
+      graphics.stroke({ width: width, color: color });
+    };
+    
+    const isHighlighted = () => this.isHighlightedVariant(feature);
+    drawTick(isHighlighted() ? RENDER_CONFIG.TICK_HOVER_WIDTH : RENDER_CONFIG.TICK_WIDTH);
+    
+    graphics.eventMode = 'dynamic';
+    graphics.cursor = 'pointer';
+    graphics.on('pointerover', () => {
+      // 加粗刻度线并显示悬浮提示
+      drawTick(RENDER_CONFIG.TICK_HOVER_WIDTH);
+      if (this.onHover) {
+        this.onHover(feature);
+      }
+    });
+    graphics.on('pointerout', () => {
+      drawTick(isHighlighted() ? RENDER_CONFIG.TICK_HOVER_WIDTH : RENDER_CONFIG.TICK_WIDTH);
+      if (this.onHover && !isHighlighted()) {
+        this.onHover(null);
+      }
+    });
+    
+    featureContainer?.addChild(graphics);
+    
+    const label = (feature.attributes.enzyme as string) || feature.name;
+    if (label && canRenderTickLabel(feature, label, genomeLength, labelRadius, this.renderedTickLabels)) {
+      const text = new PIXI.Text({
+        text: label,
+        style: {
+          fontSize: RENDER_CONFIG.TICK_LABEL_FONT_SIZE,
+          fill: COLORS.TEXT
+        }
+      });
+      text.anchor.set(0.5, 0.5);
+      text.position.set(this.centerX + Math.cos(angle) * labelRadius, this.centerY + Math.sin(angle) * labelRadius);
+      text.rotation = labelRotation;
+      featureContainer?.addChild(text);
+    }
+  }
+  
+  /**
+   * 渲染酶切位点（SVG）
+   * 在切点处从轨道内侧画一条径向刻度线，酶名沿圆周方向写在刻度线外侧，与已绘制的酶名重叠时省略
+   */
+  renderSvgTickFeature(feature: Feature, track: Track, radius: number, trackHeight: number, genomeLength: number, svgContainer?: d3.Selection<SVGElement, unknown, null, undefined>): void {
+    if (!svgContainer) return;
+    
+    const { angle, innerRadius, tickRadius, labelRadius, labelRotation } = tickGeometry(feature, genomeLength, radius, trackHeight);
+    const color = feature.color || (typeof track.color === 'string' ? track.color : `#${(track.color as number).toString(16).padStart(6, '0')}`);
+    const tickWidth = () => this.isHighlightedVariant(feature) ? RENDER_CONFIG.TICK_HOVER_WIDTH : RENDER_CONFIG.TICK_WIDTH;
+    
+    const tick = svgContainer.select('g#featureContainer')
+      .append('line')
+      .attr('x1', this.centerX + Math.cos(angle) * innerRadius)
+      .attr('y1', this.centerY + Math.sin(angle) * innerRadius)
+      .attr('x2', this.centerX + Math.cos(angle) * tickRadius)
+      .attr('y2', this.centerY + Math.sin(angle) * tickRadius)
+      .attr('stroke', color)
+      .attr('stroke-width', tickWidth())
+      .style('cursor', 'pointer');
+    
+    tick
+      .on('mouseover', () => {
+        // 加粗刻度线并显示悬浮提示
+        tick.attr('stroke-width', RENDER_CONFIG.TICK_HOVER_WIDTH);
+        if (this.onHover) {
+          this.onHover(feature);
+        }
+      })
+      .on('mouseout', () => {
+        tick.attr('stroke-width', tickWidth());
+        if (this.onHover && !this.isHighlightedVariant(feature)) {
+          this.onHover(null);
+        }
+      });
+    
+    const label = (feature.attributes.enzyme as string) || feature.name;
+    if (label && canRenderTickLabel(feature, label, genomeLength, labelRadius, this.renderedTickLabels)) {
+      const x = this.centerX + Math.cos(angle) * labelRadius;
+      const y = this.centerY + Math.sin(angle) * labelRadius;
+      svgContainer.select('g#featureContainer')
+        .append('text')
+        .text(label)
+        .attr('x', x)
+        .attr('y', y)
+        .attr('font-size', RENDER_CONFIG.TICK_LABEL_FONT_SIZE)
+        .attr('fill', '#333333')
+        .attr('text-anchor', 'middle')
+        .attr('dominant-baseline', 'central')
+        .attr('transform', `rotate(${labelRotation * 180 / Math.PI}, ${x}, ${y})`)
+        .style('pointer-events', 'none');
+    }
+  }
+  
+  /**
+   * 检查变异位点是否为当前高亮的特征
+   */
+  private isHighlightedVariant(feature: Feature): boolean {
+    return !!this.highlightedFeature && this.highlightedFeature.id === feature.id;
+  }
+  
   /**
    * 渲染GC相关特征（Canvas）
    */
   renderCanvasGCFeature(feature: Feature, track: Track, radius: number, trackHeight: number, _genomeLength: number, startAngle: number, endAngle: number, _angleWidth: number, featureContainer?: PIXI.Container): void {
-    const value = parseFloat(feature.attributes.value || '0');
+    const value = parseFloat(feature.attributes.value as string || '0');
     
     if (track.type === 'gc_content') {
       this.renderCanvasGCContentFeature(feature, track, radius, trackHeight, startAngle, endAngle, value, featureContainer);
@@ -567,7 +901,7 @@ export class FeatureRenderer {
   renderSvgGCFeature(feature: Feature, track: Track, radius: number, trackHeight: number, _genomeLength: number, startAngle: number, endAngle: number, _angleWidth: number, svgContainer?: d3.Selection<SVGElement, unknown, null, undefined>): void {
     if (!svgContainer) return;
     
-    const value = parseFloat(feature.attributes.value || '0');
+    const value = parseFloat(feature.attributes.value as string || '0');
     
     if (track.type === 'gc_content') {
       this.renderSvgGCContentFeature(feature, track, radius, trackHeight, startAngle, endAngle, value, svgContainer);
@@ -12,6 +12,7 @@ import { LabelRenderer } from './label-renderer';
 import { GridScaleRenderer } from './grid-scale-renderer';
 import { LegendRenderer } from './legend-renderer';
 import { ZoomPanController } from './zoom-pan-controller';
+import { featureContainsPosition, featureLane, splitGCTracks } from './utils';
 
 /**
  * 环形渲染器类
@@ -467,10 +468,7 @@ export class CircularRenderer extends BaseRenderer {
     const allTracks = this.genome.tracks;
     
     // 分离轨道：非GC轨道和GC轨道
-    const nonGCTracks = allTracks.filter(track => track.type !== 'gc_content' && track.type !== 'gc_skew_plus' && track.type !== 'gc_skew_minus');
-    const gcContentTrack = allTracks.find(track => track.type === 'gc_content');
-    const gcSkewPlusTrack = allTracks.find(track => track.type === 'gc_skew_plus');
-    const gcSkewMinusTrack = allTracks.find(track => track.type === 'gc_skew_minus');
+    const { nonGCTracks, gcContentTrack, gcSkewPlusTrack, gcSkewMinusTrack } = splitGCTracks(allTracks);
     
     // 计算可见轨道数量
     const visibleNonGCTracks = nonGCTracks.filter(track => track.visible);
@@ -509,10 +507,7 @@ export class CircularRenderer extends BaseRenderer {
     const allTracks = this.genome.tracks;
     
     // 分离轨道：非GC轨道和GC轨道
-    const nonGCTracks = allTracks.filter(track => track.type !== 'gc_content' && track.type !== 'gc_skew_plus' && track.type !== 'gc_skew_minus');
-    const gcContentTrack = allTracks.find(track => track.type === 'gc_content');
-    const gcSkewPlusTrack = allTracks.find(track => track.type === 'gc_skew_plus');
-    const gcSkewMinusTrack = allTracks.find(track => track.type === 'gc_skew_minus');
+    const { nonGCTracks, gcContentTrack, gcSkewPlusTrack, gcSkewMinusTrack } = splitGCTracks(allTracks);
     
     // 计算可见轨道数量
     const visibleNonGCTracks = nonGCTracks.filter(track => track.visible);
@@ -675,10 +670,7 @@ export class CircularRenderer extends BaseRenderer {
     const genomePosition = (normalizedAngle / (2 * Math.PI)) * genomeLength;
 
     // 计算实际轨道高度和间距
-    const nonGCTracks = this.genome.tracks.filter(track => track.type !== 'gc_content' && track.type !== 'gc_skew_plus' && track.type !== 'gc_skew_minus');
-    const gcContentTrack = this.genome.tracks.find(track => track.type === 'gc_content');
-    const gcSkewPlusTrack = this.genome.tracks.find(track => track.type === 'gc_skew_plus');
-    const gcSkewMinusTrack = this.genome.tracks.find(track => track.type === 'gc_skew_minus');
+    const { nonGCTracks, gcContentTrack, gcSkewPlusTrack, gcSkewMinusTrack } = splitGCTracks(this.genome.tracks);
 
     const visibleNonGCTracks = nonGCTracks.filter(track => track.visible);
     const gcContentVisible = gcContentTrack && gcContentTrack.visible;
@@ -698,6 +690,7 @@ export class CircularRenderer extends BaseRenderer {
     // 检查鼠标是否在任何轨道范围内，并确定当前轨道
     let currentRadius = this.radius;
     let currentTrack = null;
+    let currentRange: { track: any; innerRadius: number; outerRadius: number } | null = null;
 
     // 计算所有可见轨道的半径范围
     const trackRanges: { track: any; innerRadius: number; outerRadius: number }[] = [];
@@ -727,6 +720,7 @@ export class CircularRenderer extends BaseRenderer {
     for (const range of trackRanges.reverse()) {
       if (distance >= range.innerRadius && distance <= range.outerRadius) {
         currentTrack = range.track;
+        currentRange = range;
         break;
       }
     }
@@ -742,15 +736,23 @@ export class CircularRenderer extends BaseRenderer {
     let minDistance = Infinity;
 
     currentTrack.features.forEach((feature: any) => {
+      // 分道绘制的轨道（ORF）只在鼠标所在的分道中查找
+      const lane = featureLane(feature, currentTrack, currentRange!.outerRadius, trackHeight);
+      if (distance > lane.radius || distance < lane.radius - lane.height) return;
+      
       // 确保特征是可见的基因特征
       if (feature.type === 'gene' || feature.type === 'CDS' || feature.name || feature.id) {
-        // 计算特征中心位置
-        const featureCenter = (feature.start + feature.end) / 2;
+        // 计算特征中心位置，跨越原点的特征 end 大于基因组长度，中心位置取模
+        const featureCenter = ((feature.start + feature.end) / 2) % genomeLength;
         // 计算距离，考虑环形基因组的情况
         let distance = Math.abs(featureCenter - genomePosition);
         if (distance > genomeLength / 2) {
           distance = genomeLength - distance;
         }
+        // 鼠标位置落在特征范围内时优先选中该特征
+        if (featureContainsPosition(feature, genomePosition, genomeLength)) {
+          distance -= genomeLength;
+        }
         // 选择距离最近的特征
         if (distance < minDistance) {
           minDistance = distance;
@@ -792,6 +794,24 @@ export class CircularRenderer extends BaseRenderer {
     }
   }
   
+  /**
+   * 缩放到指定级别，并平移使基因组上的指定位置（轨道最外侧）显示在圈图中心
+   */
+  zoomToPosition(position: number, level: number): void {
+    if (!this.genome || this.genome.length <= 0) return;
+    
+    const angle = (position / this.genome.length) * Math.PI * 2;
+    const point = {
+      x: this.centerX + Math.cos(angle) * this.radius,
+      y: this.centerY + Math.sin(angle) * this.radius
+    };
+    
+    this.zoomLevel = level;
+    this.featureRenderer.updateZoomLevel(level);
+    this.labelRenderer.updateZoomLevel(level);
+    this.zoomPanController.centerOn(level, point, this.stage || undefined, this.svgContainer, this.rendererType);
+  }
+  
   /**
    * 设置平移偏移
    */
@@ -2,7 +2,7 @@ import * as PIXI from 'pixi.js';
 import * as d3 from 'd3';
 import type { Feature, Genome } from '../../../types';
 import { RENDER_CONFIG, COLORS } from './config';
-import { canRenderLabel } from './utils';
+import { canRenderLabel, splitGCTracks } from './utils';
 
 export class LabelRenderer {
   private centerX: number;
@@ -30,10 +30,7 @@ export class LabelRenderer {
     const genomeLength = genome.length;
     
     // 计算可见轨道数量
-    const nonGCTracks = genome.tracks.filter(track => track.type !== 'gc_content' && track.type !== 'gc_skew_plus' && track.type !== 'gc_skew_minus');
-    const gcContentTrack = genome.tracks.find(track => track.type === 'gc_content');
-    const gcSkewPlusTrack = genome.tracks.find(track => track.type === 'gc_skew_plus');
-    const gcSkewMinusTrack = genome.tracks.find(track => track.type === 'gc_skew_minus');
+    const { nonGCTracks, gcContentTrack, gcSkewPlusTrack, gcSkewMinusTrack } = splitGCTracks(genome.tracks);
 
     const visibleNonGCTracks = nonGCTracks.filter(track => track.visible);
     const gcContentVisible = gcContentTrack && gcContentTrack.visible;
@@ -84,10 +81,7 @@ export class LabelRenderer {
     const genomeLength = genome.length;
     
     // 计算可见轨道数量
-    const nonGCTracks = genome.tracks.filter(track => track.type !== 'gc_content' && track.type !== 'gc_skew_plus' && track.type !== 'gc_skew_minus');
-    const gcContentTrack = genome.tracks.find(track => track.type === 'gc_content');
-    const gcSkewPlusTrack = genome.tracks.find(track => track.type === 'gc_skew_plus');
-    const gcSkewMinusTrack = genome.tracks.find(track => track.type === 'gc_skew_minus');
+    const { nonGCTracks, gcContentTrack, gcSkewPlusTrack, gcSkewMinusTrack } = splitGCTracks(genome.tracks);
 
     const visibleNonGCTracks = nonGCTracks.filter(track => track.visible);
     const gcContentVisible = gcContentTrack && gcContentTrack.visible;
@@ -1,4 +1,25 @@
-import type { Feature, Track } from '../../../types';
+import type { Feature, Track, PlotOptions } from '../../../types';
+import { RENDER_CONFIG, ORF_LANES } from './config';
+import { GC_RING_TRACK_TYPES } from '../../data/parsers/base';
+
+/**
+ * 判断轨道是否绘制在专用的 GC 含量 / GC 偏斜圆环中
+ */
+export function isGCRingTrack(track: Track): boolean {
+  return GC_RING_TRACK_TYPES.includes(track.type);
+}
+
+/**
+ * 分离轨道：按普通轨道绘制的非 GC 轨道，以及绘制在 GC 圆环中的 GC 含量和 GC 偏斜轨道
+ */
+export function splitGCTracks<T extends Track>(tracks: T[]): { nonGCTracks: T[]; gcContentTrack?: T; gcSkewPlusTrack?: T; gcSkewMinusTrack?: T } {
+  return {
+    nonGCTracks: tracks.filter(track => !isGCRingTrack(track)),
+    gcContentTrack: tracks.find(track => track.type === 'gc_content'),
+    gcSkewPlusTrack: tracks.find(track => track.type === 'gc_skew_plus'),
+    gcSkewMinusTrack: tracks.find(track => track.type === 'gc_skew_minus')
+  };
+}
 
 /**
  * 将十六进制颜色转换为数字
@@ -10,6 +31,25 @@ export function hexToNumber(hex: string | number): number {
   return parseInt(hex.replace('#', ''), 16);
 }
 
+/**
+ * 获取特征的填充颜色，特征自身的颜色（如 BED itemRgb）优先于轨道颜色
+ * BLAST HSP 在绘制时按一致性百分比由当前轨道颜色计算，修改轨道颜色后随之变化
+ */
+export function featureColor(feature: Feature, track: Track): string {
+  if (feature.color) return feature.color;
+
+  const color = `#${hexToNumber(track.color).toString(16).padStart(6, '0')}`;
+  const identity = parseFloat(feature.attributes.identity as string);
+  if (track.type !== 'blast' || isNaN(identity)) return color;
+
+  // 一致性为 100% 时为轨道颜色，达到下限时与白色混合为浅色
+  const lower = RENDER_CONFIG.BLAST_LOWER_IDENTITY;
+  const ratio = Math.min(1, Math.max(0, (identity - lower) / (100 - lower)));
+  const weight = RENDER_CONFIG.BLAST_MIN_COLOR_WEIGHT + (1 - RENDER_CONFIG.BLAST_MIN_COLOR_WEIGHT) * ratio;
+  const rgb = [1, 3, 5].map(offset => parseInt(color.substring(offset, offset + 2), 16));
+  return '#' + rgb.map(channel => Math.round(channel * weight + 255 * (1 - weight)).toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * 创建圆弧路径
  */
@@ -31,6 +71,40 @@ export function createArcPath(cx: number, cy: number, outerRadius: number, inner
          `A ${innerRadius} ${innerRadius} 0 ${largeArcFlag} 0 ${endX2} ${endY2} Z`;
 }
 
+/**
+ * 创建只有一条圆弧的路径，用于不连续特征片段之间的连接线
+ */
+export function createConnectorPath(cx: number, cy: number, radius: number, startAngle: number, endAngle: number): string {
+  const largeArcFlag = endAngle - startAngle > Math.PI ? 1 : 0;
+  return `M ${cx + Math.cos(startAngle) * radius} ${cy + Math.sin(startAngle) * radius} ` +
+         `A ${radius} ${radius} 0 ${largeArcFlag} 1 ${cx + Math.cos(endAngle) * radius} ${cy + Math.sin(endAngle) * radius}`;
+}
+
+/**
+ * 计算特征或特征片段绘制时的起止角度
+ * 过短的区域以中心为基准扩展到最小角度宽度，两端再留出与宽度成比例的缝隙
+ */
+export function featureArcAngles(start: number, end: number, genomeLength: number): { startAngle: number; endAngle: number } {
+  // 计算基础角度
+  let baseStartAngle = (start / genomeLength) * Math.PI * 2;
+  let baseEndAngle = (end / genomeLength) * Math.PI * 2;
+  let baseAngleWidth = baseEndAngle - baseStartAngle;
+  
+  // 确保即使是非常短的基因也能被渲染
+  const minAngleWidth = RENDER_CONFIG.MIN_ANGLE_WIDTH;
+  if (baseAngleWidth < minAngleWidth) {
+    const centerAngle = (baseStartAngle + baseEndAngle) / 2;
+    baseStartAngle = centerAngle - minAngleWidth / 2;
+    baseEndAngle = centerAngle + minAngleWidth / 2;
+    baseAngleWidth = minAngleWidth;
+  }
+  
+  // 缝隙大小与角度宽度成正比，但限制在最小值和最大值之间
+  const gapAngle = Math.min(RENDER_CONFIG.MAX_GAP_ANGLE, Math.max(RENDER_CONFIG.MIN_GAP_ANGLE, baseAngleWidth * RENDER_CONFIG.GAP_ANGLE_RATIO));
+  
+  return { startAngle: baseStartAngle + gapAngle, endAngle: baseEndAngle - gapAngle };
+}
+
 /**
  * 创建圆环路径
  */
@@ -62,7 +136,7 @@ export function mergeGCSkewFeatures(gcSkewPlusTrack: Track, gcSkewMinusTrack: Tr
     visibleFeatures.forEach((feature: Feature) => {
       // 添加track信息到feature对象，以便在hover事件中使用
       feature.track = gcSkewPlusTrack;
-      const value = parseFloat(feature.attributes.value || '0');
+      const value = parseFloat(feature.attributes.value as string || '0');
       if (value > 0) {
         gcSkewFeatures.push({ feature, value });
       }
@@ -75,7 +149,7 @@ export function mergeGCSkewFeatures(gcSkewPlusTrack: Track, gcSkewMinusTrack: Tr
     visibleFeatures.forEach((feature: Feature) => {
       // 添加track信息到feature对象，以便在hover事件中使用
       feature.track = gcSkewMinusTrack;
-      const value = parseFloat(feature.attributes.value || '0');
+      const value = parseFloat(feature.attributes.value as string || '0');
       if (value < 0) {
         gcSkewFeatures.push({ feature, value });
       }
@@ -86,6 +160,23 @@ export function mergeGCSkewFeatures(gcSkewPlusTrack: Track, gcSkewMinusTrack: Tr
   return gcSkewFeatures.sort((a, b) => a.feature.start - b.feature.start);
 }
 
+/**
+ * 将角度归一化到 [0, 2π)
+ */
+export function normalizeAngle(angle: number): number {
+  const fullCircle = Math.PI * 2;
+  return ((angle % fullCircle) + fullCircle) % fullCircle;
+}
+
+/**
+ * 检查环形基因组上的位置是否落在特征范围内
+ * 跨越原点的特征 end 大于基因组长度，按位置到 start 的顺时针距离判断
+ */
+export function featureContainsPosition(feature: Feature, position: number, genomeLength: number): boolean {
+  const offset = ((position - feature.start) % genomeLength + genomeLength) % genomeLength;
+  return offset <= feature.end - feature.start;
+}
+
 /**
  * 检查是否可以渲染标签（无碰撞）
  */
@@ -93,7 +184,8 @@ export function canRenderLabel(feature: Feature, genomeLength: number, renderedL
   // 计算特征的角度范围
   const featureStartAngle = (feature.start / genomeLength) * Math.PI * 2;
   const featureEndAngle = (feature.end / genomeLength) * Math.PI * 2;
-  const featureCenterAngle = (featureStartAngle + featureEndAngle) / 2;
+  // 跨越原点的特征角度会超过 2π，归一化后再与其他标签比较
+  const featureCenterAngle = normalizeAngle((featureStartAngle + featureEndAngle) / 2);
   
   // 计算标签所需的角度空间
   const labelStartAngle = featureCenterAngle - labelAngleWidth / 2;
@@ -112,3 +204,124 @@ export function canRenderLabel(feature: Feature, genomeLength: number, renderedL
   
   return false;
 }
+
+/**
+ * 定量轨道的绘图单元
+ */
+export interface PlotBin {
+  startAngle: number;
+  endAngle: number;
+  radius: number; // 数值对应的半径
+}
+
+/**
+ * 将定量数值映射为半径，min 对应轨道内侧，max 对应轨道外侧
+ */
+export function plotValueToRadius(value: number, plot: PlotOptions, radius: number, trackHeight: number): number {
+  const ratio = Math.min(1, Math.max(0, (value - plot.min) / (plot.max - plot.min)));
+  return radius - trackHeight + ratio * trackHeight;
+}
+
+/**
+ * 计算定量轨道的绘图单元
+ * 数据点多于 maxBins 时按角度分组取平均值，避免绘制过多图形
+ */
+export function buildPlotBins(features: Feature[], plot: PlotOptions, genomeLength: number, radius: number, trackHeight: number, maxBins: number): PlotBin[] {
+  const sorted = [...features].sort((a, b) => a.start - b.start);
+  const toAngle = (position: number) => (position / genomeLength) * Math.PI * 2;
+  
+  if (sorted.length <= maxBins) {
+    return sorted.map(feature => ({
+      startAngle: toAngle(feature.start - 1),
+      endAngle: toAngle(feature.end),
+      radius: plotValueToRadius(parseFloat(feature.attributes.value as string || '0'), plot, radius, trackHeight)
+    }));
+  }
+  
+  const sums = new Array(maxBins).fill(0);
+  const counts = new Array(maxBins).fill(0);
+  sorted.forEach(feature => {
+    const center = (feature.start + feature.end) / 2;
+    const index = Math.min(maxBins - 1, Math.floor(center / genomeLength * maxBins));
+    sums[index] += parseFloat(feature.attributes.value as string || '0');
+    counts[index]++;
+  });
+  
+  const bins: PlotBin[] = [];
+  for (let i = 0; i < maxBins; i++) {
+    if (counts[i] === 0) continue;
+    bins.push({
+      startAngle: (i / maxBins) * Math.PI * 2,
+      endAngle: ((i + 1) / maxBins) * Math.PI * 2,
+      radius: plotValueToRadius(sums[i] / counts[i], plot, radius, trackHeight)
+    });
+  }
+  return bins;
+}
+
+/**
+ * 计算绘图单元中心点的坐标，用于折线图和面积图
+ */
+export function plotBinPoints(cx: number, cy: number, bins: PlotBin[]): { x: number; y: number }[] {
+  return bins.map(bin => {
+    const angle = (bin.startAngle + bin.endAngle) / 2;
+    return { x: cx + Math.cos(angle) * bin.radius, y: cy + Math.sin(angle) * bin.radius };
+  });
+}
+
+/**
+ * 计算面积图的多边形顶点：先沿数值曲线，再沿基线返回
+ */
+export function plotAreaPoints(cx: number, cy: number, bins: PlotBin[], baselineRadius: number): { x: number; y: number }[] {
+  const baselinePoints = bins.map(bin => {
+    const angle = (bin.startAngle + bin.endAngle) / 2;
+    return { x: cx + Math.cos(angle) * baselineRadius, y: cy + Math.sin(angle) * baselineRadius };
+  }).reverse();
+  return [...plotBinPoints(cx, cy, bins), ...baselinePoints];
+}
+
+/**
+ * 将坐标点转换为 SVG 路径
+ */
+export function pointsToPath(points: { x: number; y: number }[], closed: boolean): string {
+  if (points.length === 0) return '';
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ');
+  return closed ? `${path} Z` : path;
+}
+
+/**
+ * 计算特征在轨道中占据的径向范围
+ * ORF 轨道按特征的读框（attributes.frame）分为六条分道，其他轨道的特征占满整个轨道高度
+ * @returns 外侧半径和高度
+ */
+export function featureLane(feature: Feature, track: Track, radius: number, trackHeight: number): { radius: number; height: number } {
+  if (track.type !== 'orf') {
+    return { radius, height: trackHeight };
+  }
+  const laneHeight = trackHeight / ORF_LANES.length;
+  const lane = Math.max(0, ORF_LANES.indexOf(feature.attributes.frame as string));
+  return { radius: radius - lane * laneHeight, height: laneHeight };
+}
+
+/**
+ * 计算刻度线特征（酶切位点）的绘制位置
+ * 刻度线从轨道内侧画到 tickRadius，名称沿圆周方向写在刻度线外侧的剩余空间中，
+ * 下半圈的名称翻转 180°，保证文字不倒置
+ */
+export function tickGeometry(feature: Feature, genomeLength: number, radius: number, trackHeight: number): { angle: number; innerRadius: number; tickRadius: number; labelRadius: number; labelRotation: number } {
+  const angle = ((feature.start + feature.end) / 2 / genomeLength) * Math.PI * 2;
+  const innerRadius = radius - trackHeight;
+  const tickRadius = innerRadius + trackHeight * RENDER_CONFIG.TICK_LENGTH_RATIO;
+  const labelRadius = (tickRadius + radius) / 2;
+  const labelRotation = Math.sin(angle) > 0 ? angle - Math.PI / 2 : angle + Math.PI / 2;
+  return { angle, innerRadius, tickRadius, labelRadius, labelRotation };
+}
+
+/**
+ * 判断刻度线的名称是否与已绘制的名称重叠，不重叠时记录其角度范围
+ * 名称所占角度按字符数估算
+ */
+export function canRenderTickLabel(feature: Feature, label: string, genomeLength: number, labelRadius: number, renderedLabelAngles: { start: number; end: number }[]): boolean {
+  const labelWidth = label.length * RENDER_CONFIG.TICK_LABEL_FONT_SIZE * 0.6 + 4;
+  return canRenderLabel(feature, genomeLength, renderedLabelAngles, labelWidth / Math.max(labelRadius, 1));
+}
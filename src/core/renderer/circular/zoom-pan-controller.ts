@@ -114,6 +114,28 @@ export class ZoomPanController {
     // 不需要调用render()，直接修改缩放和位置即可
   }
   
+  /**
+   * 按指定缩放级别缩放，并平移使圈图上的一点显示在圈图中心的位置
+   */
+  centerOn(level: number, point: { x: number; y: number }, stage: PIXI.Container | undefined, svgContainer: d3.Selection<SVGElement, unknown, null, undefined> | undefined, rendererType: string): void {
+    const translateX = this.centerX - point.x * level;
+    const translateY = this.centerY - point.y * level;
+    
+    if (rendererType === 'canvas') {
+      if (stage && stage.children[0]) {
+        const circleContainer = stage.children[0];
+        circleContainer.scale.set(level);
+        circleContainer.position.set(translateX, translateY);
+      }
+    } else if (rendererType === 'svg' && svgContainer) {
+      // 只变换圈图相关的容器，不变换图例容器
+      svgContainer.selectAll('g#gridContainer, g#featureContainer, g#labelContainer, g#scaleContainer')
+        .attr('transform', `translate(${translateX},${translateY}) scale(${level})`);
+    }
+    
+    this.zoomLevel = level;
+  }
+  
   /**
    * 设置平移偏移
    */
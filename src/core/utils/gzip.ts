@@ -0,0 +1,81 @@
+// gzip / bgzip 解压
+
+/** gzip 文件头的魔数 */
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * 判断数据是否为 gzip 压缩（包括 bgzip）
+ */
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+}
+
+/**
+ * 读取 BGZF 块头中的 BSIZE 子字段，返回整个块的字节数；不是 BGZF 块时返回 null
+ */
+function bgzfBlockSize(bytes: Uint8Array, offset: number): number | null {
+  // FLG 中的 FEXTRA 位
+  if (bytes.length < offset + 18 || (bytes[offset + 3] & 0x04) === 0) return null;
+
+  const extraLength = bytes[offset + 10] | (bytes[offset + 11] << 8);
+  let position = offset + 12;
+  const extraEnd = position + extraLength;
+
+  while (position + 4 <= extraEnd) {
+    const subfieldLength = bytes[position + 2] | (bytes[position + 3] << 8);
+    // BGZF 子字段标识为 "BC"，内容为块大小减一
+    if (bytes[position] === 66 && bytes[position + 1] === 67 && subfieldLength === 2) {
+      return (bytes[position + 4] | (bytes[position + 5] << 8)) + 1;
+    }
+    position += 4 + subfieldLength;
+  }
+
+  return null;
+}
+
+/**
+ * 使用浏览器内置的 DecompressionStream 解压单个 gzip 成员
+ */
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * 解压 gzip 数据
+ * bgzip 文件由多个独立的 gzip 块拼接而成，按块头中的大小逐块解压后合并
+ */
+export async function decompressGzip(bytes: Uint8Array): Promise<Uint8Array> {
+  if (bgzfBlockSize(bytes, 0) === null) {
+    return inflate(bytes);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const blockSize = bgzfBlockSize(bytes, offset);
+    if (blockSize === null) {
+      throw new Error(`Invalid BGZF block at byte ${offset}`);
+    }
+    chunks.push(await inflate(bytes.subarray(offset, offset + blockSize)));
+    offset += blockSize;
+  }
+
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, position);
+    position += chunk.length;
+  });
+  return result;
+}
+
+/**
+ * 读取文件的文本内容，gzip / bgzip 压缩的文件先解压
+ * 按内容中的魔数判断是否压缩，与文件扩展名无关
+ */
+export async function readFileText(file: Blob): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const data = isGzip(bytes) ? await decompressGzip(bytes) : bytes;
+  return new TextDecoder().decode(data);
+}
@@ -0,0 +1,13 @@
+// HTML / SVG 文本转义
+
+/**
+ * 转义 HTML 特殊字符，用于把文件中或用户输入的文本拼入 HTML 或导出的 SVG
+ */
+export function escapeHTML(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
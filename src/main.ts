@@ -4,6 +4,7 @@
  */
 import './style.css'
 import { CGView } from './core'
+import type { GFF3ValidationError } from './core/data'
 import { ThemeManager } from './ui'
 import { SidebarManager } from './ui/Sidebar'
 import { ColorSchemeManager } from './ui/ColorSchemeManager'
@@ -174,16 +175,21 @@ requestAnimationFrame(async () => {
 
   // 监听GFF文件加载事件
   document.addEventListener('gffFileLoaded', async (e: any) => {
-    const { content } = e.detail;
+    const { content, format, sequenceContent, tracks } = e.detail;
     try {
       // 初始化CGView
       initCGView(content);
       
       // 加载基因组数据
       console.log('Loading genome data...');
-      await cgview.loadGenome(content, 'gff3');
+      await cgview.loadGenome(content, format || 'gff3', sequenceContent);
       console.log('Genome data loaded successfully');
       
+      // 加载同时选择的附加轨道文件
+      for (const track of tracks || []) {
+        await cgview.loadTrack(track.content, track.format, track.name);
+      }
+      
       // 响应窗口大小变化
       window.addEventListener('resize', () => {
         const newWidth = Math.max(container.clientWidth || 800, 800);
@@ -197,11 +203,41 @@ requestAnimationFrame(async () => {
         cgview.resize(newWidth, newHeight);
       });
     } catch (error) {
+      controlsManager.hideLoadProgress();
+      // 用户取消加载
+      if ((error as Error).name === 'AbortError') {
+        console.log('Genome loading cancelled');
+        container.innerHTML = '<div style="display: flex; align-items: center; justify-content: center; height: 100%; font-size: 18px; color: #666;">Loading cancelled.</div>';
+        return;
+      }
+      // GFF3 校验失败，在侧边栏列出具体的错误行
+      if ((error as Error).name === 'GFF3ValidationError') {
+        controlsManager.showValidationReport((error as GFF3ValidationError).report, true);
+        container.innerHTML = '<div style="display: flex; align-items: center; justify-content: center; height: 100%; font-size: 18px; color: #f44336;">GFF3 file contains no valid features. See the validation report in the sidebar.</div>';
+        return;
+      }
       console.error('Error loading GFF file:', error);
       container.innerHTML = '<div style="display: flex; align-items: center; justify-content: center; height: 100%; font-size: 18px; color: #f44336;">Error loading GFF file. Please check the console for details.</div>';
     }
   });
 
+  // 监听项目包加载事件
+  document.addEventListener('bundleFileLoaded', async (e: any) => {
+    const { file } = e.detail;
+    try {
+      // 初始化CGView
+      initCGView('');
+      
+      // 加载项目包中的全部数据和显示设置
+      console.log('Loading project bundle...');
+      await cgview.loadBundle(file);
+      console.log('Project bundle loaded successfully');
+    } catch (error) {
+      console.error('Error loading project bundle:', error);
+      container.innerHTML = '<div style="display: flex; align-items: center; justify-content: center; height: 100%; font-size: 18px; color: #f44336;">Error loading project bundle. Please check the console for details.</div>';
+    }
+  });
+
   // 加载演示数据
   loadDemoData();
 });
\ No newline at end of file
@@ -8,7 +8,13 @@ export type Strand = '+' | '-' | '.';
 
 // 特征属性
 export interface FeatureAttributes {
-  [key: string]: string;
+  [key: string]: string | string[];
+}
+
+// 不连续特征的一个片段（如剪接后 CDS 的一个外显子部分）
+export interface FeatureSegment {
+  start: number;
+  end: number;
 }
 
 // 特征
@@ -21,8 +27,82 @@ export interface Feature {
   strand: Strand;
   attributes: FeatureAttributes;
   sequenceId?: string;
+  color?: string; // 特征自身的颜色（如 BED 的 itemRgb），优先于轨道颜色
+  segments?: FeatureSegment[]; // 不连续特征（多行共用同一 ID 或 join() 位置）的各个片段，按起始位置排序；start / end 为整体范围
   seqid?: string; // 用于存储contig ID
   track?: any; // 用于存储所属track信息
+  parents?: Feature[]; // 按 Parent 属性关联的父特征，不参与序列化
+  children?: Feature[]; // 按 Parent 属性关联的子特征，不参与序列化
+}
+
+// 定量轨道的绘图方式
+export type PlotStyle = 'bar' | 'line' | 'area';
+
+// 定量轨道（bedGraph、WIG）的绘图选项
+export interface PlotOptions {
+  style: PlotStyle;
+  min: number; // 轨道内侧对应的数值
+  max: number; // 轨道外侧对应的数值
+  baseline: number; // 柱状图和面积图的基线
+}
+
+// GC 含量和 GC 偏斜的滑动窗口设置，单位 bp
+export interface GCWindowOptions {
+  windowSize: number; // 计算每个值使用的窗口大小
+  stepSize: number; // 相邻窗口中心的间距，小于窗口大小时窗口互相重叠
+}
+
+// 六框 ORF 查找选项
+export interface ORFOptions {
+  minLength: number; // 最短长度（bp，含终止密码子）
+  startCodons: string[]; // 起始密码子，如 ['ATG', 'GTG', 'TTG']
+  geneticCode: number; // NCBI 遗传密码表编号，决定终止密码子
+}
+
+// 限制性内切酶
+export interface RestrictionEnzyme {
+  name: string;
+  site: string; // 识别序列（5'→3'），可包含 IUPAC 简并碱基
+  cut?: number; // 正链上切点距识别序列 5' 端的碱基数，未知时在识别序列起点标记
+}
+
+// 限制性酶切位点分析选项
+export interface RestrictionOptions {
+  enzymes: string[]; // 在图上显示切点的酶名称
+  customEnzymes: RestrictionEnzyme[]; // 用户自定义的酶，与内置酶同名时优先
+}
+
+// 一种酶在整个基因组上的切点数
+export interface RestrictionDigest {
+  enzyme: RestrictionEnzyme;
+  count: number;
+}
+
+// 序列基序 / 引物查找选项
+export interface MotifSearchOptions {
+  pattern: string; // 查找的序列（5'→3'），可包含 IUPAC 简并碱基
+  maxMismatches: number; // 允许的最多错配碱基数
+}
+
+// 序列基序 / 引物查找结果
+export interface MotifSearchResult {
+  hits: Feature[]; // 两条链上的匹配位点，按位置排序
+  truncated: boolean; // 匹配位点过多，只保留了前面的一部分
+}
+
+// 表格（CSV / TSV）列与特征字段的对应关系，值为表头中的列名
+export interface ColumnMapping {
+  seqid?: string; // 未对应时所有行放在基因组的第一条序列上（合作者的表格常常没有序列列）
+  start: string;
+  end: string;
+  strand?: string;
+  type?: string; // 按此列的取值分组生成轨道
+  name?: string;
+}
+
+// 附加轨道的解析选项
+export interface TrackParseOptions {
+  columnMapping?: ColumnMapping; // 表格文件的列对应关系
 }
 
 // 轨道选项
@@ -44,6 +124,7 @@ export interface Track {
   visible: boolean;
   height: number;
   features: Feature[];
+  plot?: PlotOptions; // 定量轨道的绘图选项，有此项时按数值绘制而不是按区域绘制
 }
 
 // 序列
@@ -52,6 +133,8 @@ export interface Sequence {
   name: string;
   length: number;
   features: Feature[];
+  sequence?: string; // 碱基序列
+  circular?: boolean; // 环状复制子（如细菌染色体、质粒），特征可以跨越原点
 }
 
 // 基因组
@@ -94,6 +177,51 @@ export interface ExportOptions {
   backgroundColor?: string;
 }
 
+// 基因组加载进度（loadProgress 事件）
+export interface LoadProgress {
+  bytesParsed: number;
+  totalBytes: number;
+  featuresFound: number;
+}
+
+// 基因组加载选项
+export interface GenomeLoadOptions {
+  onProgress?: (progress: LoadProgress) => void;
+  signal?: AbortSignal; // 用于取消加载
+}
+
+// 项目包中的一个数据文件
+export interface BundleFile {
+  path: string; // 包内路径
+  format: string; // 解析格式（gff3、fasta、bed 等）
+  name?: string; // 附加轨道的默认名称
+  options?: TrackParseOptions; // 附加轨道的解析选项
+}
+
+// 项目包中保存的轨道显示设置
+export interface BundleTrackSettings {
+  name: string;
+  type: string;
+  color: string | number;
+  visible: boolean;
+  plot?: PlotOptions;
+}
+
+// 项目包清单（manifest.json）
+export interface BundleManifest {
+  version: number;
+  genome: BundleFile; // 注释或纯序列文件
+  sequence?: BundleFile; // 单独提供的 FASTA 文件
+  tracks: BundleFile[]; // 附加轨道文件，按加载顺序排列
+  trackSettings: BundleTrackSettings[]; // 按绘制顺序排列
+  view?: {
+    labelsVisible: boolean;
+    gcWindow?: GCWindowOptions; // 手动设置的 GC 窗口，未设置时自动选择
+    orf?: ORFOptions; // ORF 轨道的查找选项，加载后重新查找
+    restriction?: RestrictionOptions; // 显示的限制性酶切位点，加载后重新查找
+  };
+}
+
 // 颜色选项
 export interface ColorOptions {
   [featureType: string]: string;
@@ -119,8 +247,20 @@ export interface CGViewOptions {
   colors?: ColorOptions;
 }
 
+// 文件校验发现的问题
+export interface ValidationIssue {
+  line: number; // 行号，从 1 开始
+  message: string;
+}
+
+// 文件校验报告
+export interface ValidationReport {
+  errors: ValidationIssue[]; // 导致该行被跳过的问题
+  warnings: ValidationIssue[]; // 不影响加载但可能有误的内容
+}
+
 // 事件类型
-export type EventType = 'zoom' | 'pan' | 'click' | 'hover' | 'dataLoaded' | 'viewModeChanged' | 'initialized' | 'rendererTypeChanged';
+export type EventType = 'zoom' | 'pan' | 'click' | 'hover' | 'dataLoaded' | 'viewModeChanged' | 'initialized' | 'rendererTypeChanged' | 'loadProgress' | 'validationReport';
 
 // 事件回调
 export type EventCallback = (data?: any) => void;
\ No newline at end of file
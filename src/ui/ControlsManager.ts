@@ -1,4 +1,7 @@
 import { CGView } from '../core';
+import { TableParser } from '../core/data';
+import { readFileText } from '../core/utils/gzip';
+import type { ColumnMapping, LoadProgress, ValidationReport } from '../types';
 
 /**
  * 控制管理器类
@@ -13,11 +16,56 @@ export class ControlsManager {
   private resetZoomBtn: HTMLElement;
   private fullscreenBtn: HTMLElement;
   private exportSvgBtn: HTMLElement;
+  private exportBundleBtn: HTMLElement | null;
   private gffFileInput: HTMLInputElement;
   private dropArea: HTMLElement;
   private legendVisible = true;
   private labelsVisible = true;
   private currentZoom = 1;
+  /** 文件扩展名与解析格式的对应关系 */
+  private readonly fileFormats: Record<string, string> = {
+    '.gff': 'gff3',
+    '.gff3': 'gff3',
+    '.gtf': 'gtf',
+    '.gff2': 'gff2',
+    '.gb': 'genbank',
+    '.gbk': 'genbank',
+    '.gbff': 'genbank',
+    '.genbank': 'genbank',
+    '.embl': 'embl',
+    '.fa': 'fasta',
+    '.fasta': 'fasta',
+    '.fna': 'fasta',
+    '.fas': 'fasta',
+    '.bed': 'bed',
+    '.vcf': 'vcf',
+    '.blast': 'blast',
+    '.blastn': 'blast',
+    '.m8': 'blast',
+    '.outfmt6': 'blast',
+    '.outfmt7': 'blast',
+    '.bedgraph': 'bedgraph',
+    '.bdg': 'bedgraph',
+    '.wig': 'wig',
+    '.csv': 'csv',
+    '.tsv': 'tsv',
+    '.zip': 'bundle'
+  };
+  // 作为附加轨道加载到当前基因组的格式
+  private readonly trackFormats: Set<string> = new Set(['bed', 'vcf', 'blast', 'bedgraph', 'wig', 'csv', 'tsv']);
+  // 需要用户设置列对应关系的表格格式
+  private readonly tableFormats: Set<string> = new Set(['csv', 'tsv']);
+  // 等待设置列对应关系的表格文件
+  private pendingTables: { file: File; format: string }[] = [];
+  /** 列对应设置中的字段，带 * 的为必选 */
+  private readonly mappingFields: { key: keyof ColumnMapping; label: string; required: boolean }[] = [
+    { key: 'seqid', label: 'Seqid', required: false },
+    { key: 'start', label: 'Start *', required: true },
+    { key: 'end', label: 'End *', required: true },
+    { key: 'strand', label: 'Strand', required: false },
+    { key: 'type', label: 'Type', required: false },
+    { key: 'name', label: 'Name', required: false }
+  ];
 
   constructor() {
     this.legendToggle = document.getElementById('legend-toggle')! as HTMLButtonElement;
@@ -27,6 +75,7 @@ export class ControlsManager {
     this.resetZoomBtn = document.getElementById('reset-zoom-btn')!;
     this.fullscreenBtn = document.getElementById('fullscreen-btn')!;
     this.exportSvgBtn = document.getElementById('export-svg-btn')!;
+    this.exportBundleBtn = document.getElementById('export-bundle-btn');
     this.gffFileInput = document.getElementById('gff-file-input')! as HTMLInputElement;
     this.dropArea = document.getElementById('drop-area')!;
 
@@ -38,6 +87,88 @@ export class ControlsManager {
    */
   setCGView(cgview: CGView) {
     this.cgview = cgview;
+    cgview.on('loadProgress', (progress: LoadProgress) => this.showLoadProgress(progress));
+    cgview.on('dataLoaded', () => this.hideLoadProgress());
+    cgview.on('validationReport', (report: ValidationReport) => this.showValidationReport(report, false));
+    // 缩放到区间（如点击查找结果）后同步缩放级别，按钮在新级别的基础上继续缩放
+    cgview.on('zoom', (data: { level?: number }) => {
+      if (data && data.level !== undefined) this.currentZoom = data.level;
+    });
+    // 新的 CGView 实例意味着重新加载数据，清除上一个文件的报告
+    this.hideValidationReport();
+  }
+
+  /**
+   * 显示基因组加载进度
+   */
+  private showLoadProgress(progress: LoadProgress) {
+    const panel = document.getElementById('load-progress');
+    const fill = document.getElementById('load-progress-fill');
+    const text = document.getElementById('load-progress-text');
+    if (!panel || !fill || !text) return;
+
+    const percent = progress.totalBytes > 0 ? Math.round(progress.bytesParsed / progress.totalBytes * 100) : 0;
+    const megabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    fill.style.width = `${percent}%`;
+    text.textContent = `${megabytes(progress.bytesParsed)} / ${megabytes(progress.totalBytes)} MB, ${progress.featuresFound} features`;
+    panel.style.display = 'block';
+  }
+
+  /**
+   * 隐藏基因组加载进度
+   */
+  hideLoadProgress() {
+    const panel = document.getElementById('load-progress');
+    if (panel) {
+      panel.style.display = 'none';
+    }
+  }
+
+  /**
+   * 显示 GFF3 校验报告
+   * @param failed 文件是否加载失败；加载成功但有被跳过的行或警告时为 false
+   */
+  showValidationReport(report: ValidationReport, failed: boolean) {
+    const panel = document.getElementById('validation-report');
+    const title = document.getElementById('validation-report-title');
+    const list = document.getElementById('validation-report-list');
+    if (!panel || !title || !list) return;
+
+    const summary = `${report.errors.length} error(s), ${report.warnings.length} warning(s)`;
+    title.textContent = failed ? `Failed to load: ${summary}` : `Loaded with ${summary}`;
+    panel.classList.toggle('failed', failed);
+
+    // 问题可能很多，只列出前面一部分
+    const maxItems = 200;
+    const issues = [
+      ...report.errors.map(issue => ({ ...issue, severity: 'error' })),
+      ...report.warnings.map(issue => ({ ...issue, severity: 'warning' }))
+    ];
+    list.innerHTML = '';
+    issues.slice(0, maxItems).forEach(issue => {
+      const item = document.createElement('li');
+      item.className = issue.severity;
+      // 消息中包含文件内容，使用 textContent 避免被当作 HTML
+      item.textContent = `Line ${issue.line}: ${issue.message}`;
+      list.appendChild(item);
+    });
+    if (issues.length > maxItems) {
+      const more = document.createElement('li');
+      more.textContent = `... and ${issues.length - maxItems} more`;
+      list.appendChild(more);
+    }
+
+    panel.style.display = 'block';
+  }
+
+  /**
+   * 隐藏 GFF3 校验报告
+   */
+  hideValidationReport() {
+    const panel = document.getElementById('validation-report');
+    if (panel) {
+      panel.style.display = 'none';
+    }
   }
 
   /**
@@ -142,12 +273,30 @@ export class ControlsManager {
       }
     });
 
+    // 导出项目包按钮
+    this.exportBundleBtn?.addEventListener('click', async () => {
+      if (!this.cgview) return;
+      
+      try {
+        const blob = await this.cgview.exportBundle();
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'cgview-project.zip';
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      } catch (error) {
+        console.error('Error exporting project bundle:', error);
+      }
+    });
+
     // GFF 文件选择
     this.gffFileInput.addEventListener('change', (e) => {
       const target = e.target as HTMLInputElement;
-      if (target.files && target.files[0]) {
-        const file = target.files[0];
-        this.handleGffFile(file);
+      if (target.files && target.files.length > 0) {
+        this.handleFiles(Array.from(target.files));
       }
     });
     
@@ -173,6 +322,17 @@ export class ControlsManager {
     this.dropArea.addEventListener('click', () => {
       this.gffFileInput.click();
     });
+
+    // 关闭校验报告
+    document.getElementById('validation-report-close')?.addEventListener('click', () => {
+      this.hideValidationReport();
+    });
+
+    // 取消基因组加载
+    document.getElementById('load-cancel-btn')?.addEventListener('click', () => {
+      this.cgview?.cancelLoading();
+      this.hideLoadProgress();
+    });
   }
 
   /**
@@ -202,35 +362,240 @@ export class ControlsManager {
    */
   private handleDrop(e: DragEvent) {
     const dt = e.dataTransfer;
-    if (dt && dt.files) {
-      const file = dt.files[0];
-      if (file.name.endsWith('.gff') || file.name.endsWith('.gff3')) {
-        this.handleGffFile(file);
+    if (dt && dt.files && dt.files.length > 0) {
+      this.handleFiles(Array.from(dt.files));
+    }
+  }
+
+  /**
+   * 处理选择或拖放的文件
+   * 同时提供注释文件和 FASTA 文件时，序列按 seqid 附加到注释上；
+   * BED、VCF、BLAST、bedGraph、WIG 等轨道文件添加到当前基因组（或同时加载的注释）上；
+   * CSV / TSV 表格需要先设置列对应关系；项目包（.zip）单独加载并替换当前图谱
+   */
+  private handleFiles(files: File[]) {
+    const bundleFile = files.find(file => this.getFileFormat(file.name) === 'bundle');
+    if (bundleFile) {
+      this.handleBundleFile(bundleFile);
+      return;
+    }
+
+    const annotationFiles: { file: File; format: string }[] = [];
+    const sequenceFiles: File[] = [];
+    const trackFiles: { file: File; format: string }[] = [];
+    const tableFiles: { file: File; format: string }[] = [];
+
+    for (const file of files) {
+      const format = this.getFileFormat(file.name);
+      if (!format) {
+        alert('请选择 GFF、GFF3、GTF、GenBank、EMBL、FASTA、BED、bedGraph、WIG、VCF、BLAST 表格、CSV/TSV 格式的文件或项目包（.zip）');
+        return;
+      }
+      if (format === 'fasta') {
+        sequenceFiles.push(file);
+      } else if (this.tableFormats.has(format)) {
+        tableFiles.push({ file, format });
+      } else if (this.trackFormats.has(format)) {
+        trackFiles.push({ file, format });
       } else {
-        alert('请选择 GFF 或 GFF3 格式的文件');
+        annotationFiles.push({ file, format });
       }
     }
+
+    if (annotationFiles.length > 0) {
+      const { file, format } = annotationFiles[0];
+      this.handleGffFile(file, format, sequenceFiles[0], trackFiles);
+    } else if (sequenceFiles.length > 0) {
+      // 当前注释缺少序列时，将 FASTA 附加到当前基因组，否则作为纯序列图谱加载
+      if (this.canAttachSequences()) {
+        this.handleSequenceFile(sequenceFiles[0]);
+      } else {
+        this.handleGffFile(sequenceFiles[0], 'fasta', undefined, trackFiles);
+      }
+    } else if (trackFiles.length > 0 || tableFiles.length > 0) {
+      if (!this.cgview?.getGenome()) {
+        alert('请先加载基因组注释或序列文件，再添加 BED、bedGraph、WIG、VCF、BLAST、CSV/TSV 轨道');
+        return;
+      }
+      trackFiles.forEach(({ file, format }) => this.handleTrackFile(file, format));
+    }
+
+    // 表格文件在导入前依次设置列对应关系，与注释同时加载时在注释加载后导入
+    if (tableFiles.length > 0) {
+      const idle = this.pendingTables.length === 0;
+      this.pendingTables.push(...tableFiles);
+      if (idle) {
+        this.showColumnMapping();
+      }
+    }
+  }
+
+  /**
+   * 显示队列中第一个表格文件的列对应设置
+   * 按常见列名预先选择对应的列
+   */
+  private async showColumnMapping() {
+    const panel = document.getElementById('column-mapping');
+    const title = document.getElementById('column-mapping-title');
+    const fields = document.getElementById('column-mapping-fields');
+    const importBtn = document.getElementById('column-mapping-import');
+    const cancelBtn = document.getElementById('column-mapping-cancel');
+    if (!panel || !title || !fields || !importBtn || !cancelBtn) return;
+
+    const pending = this.pendingTables[0];
+    if (!pending) {
+      panel.style.display = 'none';
+      return;
+    }
+
+    const content = await readFileText(pending.file);
+    const columns = TableParser.readColumns(content);
+    const guessed = TableParser.guessColumnMapping(columns);
+
+    title.textContent = pending.file.name;
+    fields.innerHTML = '';
+    const selects: Map<keyof ColumnMapping, HTMLSelectElement> = new Map();
+
+    this.mappingFields.forEach(({ key, label, required }) => {
+      const fieldLabel = document.createElement('label');
+      fieldLabel.textContent = label;
+
+      const select = document.createElement('select');
+      if (!required) {
+        select.appendChild(new Option('(none)', ''));
+      }
+      columns.forEach(column => select.appendChild(new Option(column, column)));
+      select.value = guessed?.[key] || (required ? columns[0] || '' : '');
+
+      selects.set(key, select);
+      fields.appendChild(fieldLabel);
+      fields.appendChild(select);
+    });
+
+    // 按钮每次显示时重新绑定，只处理当前文件
+    importBtn.onclick = async () => {
+      const mapping: ColumnMapping = {
+        seqid: selects.get('seqid')!.value || undefined,
+        start: selects.get('start')!.value,
+        end: selects.get('end')!.value,
+        strand: selects.get('strand')!.value || undefined,
+        type: selects.get('type')!.value || undefined,
+        name: selects.get('name')!.value || undefined
+      };
+      if (!this.cgview?.getGenome()) {
+        alert('请先加载基因组注释或序列文件，再导入表格');
+        return;
+      }
+      await this.handleTrackFile(pending.file, pending.format, content, mapping);
+      this.pendingTables.shift();
+      this.showColumnMapping();
+    };
+    cancelBtn.onclick = () => {
+      this.pendingTables.shift();
+      this.showColumnMapping();
+    };
+
+    panel.style.display = 'block';
+  }
+
+  /**
+   * 检查当前基因组是否已加载注释但缺少序列
+   */
+  private canAttachSequences(): boolean {
+    const genome = this.cgview?.getGenome();
+    if (!genome || genome.sequences.length === 0) return false;
+    return genome.sequences.every((sequence: any) => !sequence.sequence);
+  }
+
+  /**
+   * 处理附加到当前基因组的 FASTA 文件
+   */
+  private async handleSequenceFile(file: File) {
+    if (!this.cgview) return;
+
+    try {
+      const content = await readFileText(file);
+      const matchedCount = await this.cgview.loadSequences(content);
+      if (matchedCount === 0) {
+        alert('FASTA 文件中没有与当前注释 seqid 匹配的序列');
+      }
+    } catch (error) {
+      console.error('Error loading FASTA file:', error);
+    }
+  }
+
+  /**
+   * 处理添加到当前基因组的轨道文件
+   * @param content 已读取的文件内容，未提供时读取文件
+   * @param columnMapping 表格文件的列对应关系
+   */
+  private async handleTrackFile(file: File, format: string, content?: string, columnMapping?: ColumnMapping) {
+    if (!this.cgview) return;
+
+    try {
+      const text = content ?? await readFileText(file);
+      const tracks = await this.cgview.loadTrack(text, format, this.getTrackName(file.name), { columnMapping });
+      if (tracks.length === 0) {
+        alert(`${file.name} 中没有与当前基因组序列匹配的记录`);
+      }
+    } catch (error) {
+      console.error('Error loading track file:', error);
+      alert(`${file.name} 加载失败：${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * 处理项目包文件
+   */
+  private handleBundleFile(file: File) {
+    const container = document.getElementById('cgview-container')!;
+    // 显示加载中状态
+    container.innerHTML = '<div style="display: flex; align-items: center; justify-content: center; height: 100%; font-size: 18px; color: #666;">Loading project bundle...</div>';
+    
+    // 触发项目包加载事件
+    document.dispatchEvent(new CustomEvent('bundleFileLoaded', { detail: { file } }));
+  }
+
+  /**
+   * 使用去掉扩展名（包括压缩扩展名）的文件名作为默认轨道名称
+   */
+  private getTrackName(fileName: string): string {
+    return fileName.replace(/\.(gz|bgz)$/i, '').replace(/\.[^.]+$/, '');
+  }
+
+  /**
+   * 根据文件扩展名判断文件格式
+   * 压缩文件（.gz / .bgz）按去掉压缩扩展名后的文件名判断，读取时按内容自动解压
+   */
+  private getFileFormat(fileName: string): string | null {
+    const name = fileName.toLowerCase().replace(/\.(gz|bgz)$/, '');
+    const extension = Object.keys(this.fileFormats).find(ext => name.endsWith(ext));
+    return extension ? this.fileFormats[extension] : null;
   }
 
   /**
-   * 处理 GFF 文件
+   * 处理注释文件
    */
-  private async handleGffFile(file: File) {
+  private async handleGffFile(file: File, format: string, sequenceFile?: File, trackFiles: { file: File; format: string }[] = []) {
     try {
       const container = document.getElementById('cgview-container')!;
       // 显示加载中状态
       container.innerHTML = '<div style="display: flex; align-items: center; justify-content: center; height: 100%; font-size: 18px; color: #666;">Loading genome data...</div>';
       
-      // 读取文件内容
-      const content = await file.text();
-      console.log('Loaded GFF file content length:', content.length);
-      console.log('First 100 characters:', content.substring(0, 100) + '...');
+      // 注释文件直接交给 CGView，由 Worker 按块读取和解析
+      const sequenceContent = sequenceFile ? await readFileText(sequenceFile) : undefined;
+      const tracks = await Promise.all(trackFiles.map(async ({ file, format }) => ({
+        content: await readFileText(file),
+        format,
+        name: this.getTrackName(file.name)
+      })));
+      console.log('Loading annotation file:', { name: file.name, size: file.size });
       
       // 清空容器，准备重新初始化
       container.innerHTML = '';
       
       // 触发文件加载事件
-      document.dispatchEvent(new CustomEvent('gffFileLoaded', { detail: { content } }));
+      document.dispatchEvent(new CustomEvent('gffFileLoaded', { detail: { content: file, format, sequenceContent, tracks } }));
     } catch (error) {
       console.error('Error loading GFF file:', error);
       const container = document.getElementById('cgview-container')!;
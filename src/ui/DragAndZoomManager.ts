@@ -22,6 +22,10 @@ export class DragAndZoomManager {
    */
   setCGView(cgview: CGView) {
     this.cgview = cgview;
+    // 缩放到区间（如点击查找结果）后同步缩放级别，滚轮在新级别的基础上继续缩放
+    cgview.on('zoom', (data: { level?: number }) => {
+      if (data && data.level !== undefined) this.currentZoom = data.level;
+    });
   }
 
   /**
@@ -47,7 +51,7 @@ export class DragAndZoomManager {
       let timeout: number | null = null;
       return (...args: Parameters<T>) => {
         if (!timeout) {
-          timeout = setTimeout(() => {
+          timeout = window.setTimeout(() => {
             func(...args);
             timeout = null;
           }, wait);
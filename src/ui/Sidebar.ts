@@ -1,4 +1,6 @@
 import { CGView } from '../core';
+import { GENETIC_CODES, DEFAULT_ORF_OPTIONS, parseRestrictionSite, formatRestrictionSite, isIUPACSequence } from '../core/data';
+import type { PlotStyle, RestrictionEnzyme, RestrictionDigest, Feature } from '../types';
 
 /**
  * 侧边栏管理类
@@ -24,6 +26,9 @@ export class SidebarManager {
     this.initSidebarExpand();
     this.initSidebarCollapse();
     this.initControls();
+    this.initORFFinder();
+    this.initRestrictionSites();
+    this.initMotifSearch();
   }
 
   /**
@@ -68,11 +73,362 @@ export class SidebarManager {
         trackItem.appendChild(checkbox);
         trackItem.appendChild(colorBlock);
         trackItem.appendChild(label);
+        
+        // 定量轨道可调整绘图样式和数值范围
+        if (track.plot) {
+          trackItem.appendChild(this.createPlotControls(track));
+        }
+        
+        // GC 窗口设置对所有 GC 轨道生效，只在 GC 含量轨道下显示一次
+        if (track.type === 'gc_content') {
+          trackItem.appendChild(this.createGCWindowControls());
+        }
+        
         this.trackList.appendChild(trackItem);
       });
     });
   }
   
+  /**
+   * 创建定量轨道的绘图设置控件（样式、最小值、最大值、基线）
+   */
+  private createPlotControls(track: any): HTMLElement {
+    const controls = document.createElement('div');
+    controls.className = 'track-plot-controls';
+    
+    const styleSelect = document.createElement('select');
+    ['bar', 'line', 'area'].forEach(style => {
+      const option = document.createElement('option');
+      option.value = style;
+      option.textContent = style.charAt(0).toUpperCase() + style.slice(1);
+      styleSelect.appendChild(option);
+    });
+    styleSelect.value = track.plot.style;
+    styleSelect.addEventListener('change', () => {
+      this.cgview?.setTrackPlotOptions(track.id, { style: styleSelect.value as PlotStyle });
+    });
+    controls.appendChild(styleSelect);
+    
+    (['min', 'max', 'baseline'] as const).forEach(key => {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.step = 'any';
+      input.title = key;
+      input.placeholder = key;
+      input.value = track.plot[key].toString();
+      input.addEventListener('change', () => {
+        const value = parseFloat(input.value);
+        if (isNaN(value)) {
+          input.value = track.plot[key].toString();
+          return;
+        }
+        this.cgview?.setTrackPlotOptions(track.id, { [key]: value });
+      });
+      controls.appendChild(input);
+    });
+    
+    // 避免点击控件时触发轨道项的交互
+    controls.addEventListener('click', (e) => e.stopPropagation());
+    
+    return controls;
+  }
+  
+  /**
+   * 创建 GC 轨道的窗口设置控件（窗口大小、步长），修改后立即重新计算 GC 轨道
+   */
+  private createGCWindowControls(): HTMLElement {
+    const controls = document.createElement('div');
+    controls.className = 'track-plot-controls';
+    const current = this.cgview?.getGCWindow();
+    
+    const inputs = (['windowSize', 'stepSize'] as const).map(key => {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '1';
+      input.step = '1';
+      input.title = key === 'windowSize' ? 'GC window (bp)' : 'GC step (bp)';
+      input.placeholder = key === 'windowSize' ? 'window' : 'step';
+      input.value = current ? current[key].toString() : '';
+      controls.appendChild(input);
+      return input;
+    });
+    
+    const [windowInput, stepInput] = inputs;
+    const apply = () => {
+      const windowSize = parseInt(windowInput.value);
+      const stepSize = parseInt(stepInput.value);
+      if (!(windowSize > 0) || !(stepSize > 0)) {
+        windowInput.value = current ? current.windowSize.toString() : '';
+        stepInput.value = current ? current.stepSize.toString() : '';
+        return;
+      }
+      this.cgview?.setGCWindow({ windowSize, stepSize });
+    };
+    inputs.forEach(input => input.addEventListener('change', apply));
+    
+    const autoBtn = document.createElement('button');
+    autoBtn.className = 'column-mapping-btn';
+    autoBtn.textContent = 'Auto';
+    autoBtn.title = 'Choose window and step from the genome length';
+    autoBtn.addEventListener('click', () => this.cgview?.setGCWindow());
+    controls.appendChild(autoBtn);
+    
+    // 避免点击控件时触发轨道项的交互
+    controls.addEventListener('click', (e) => e.stopPropagation());
+    
+    return controls;
+  }
+  
+  /**
+   * 初始化 ORF 查找面板：填充遗传密码表选项和默认值，点击按钮后查找并显示 ORF 轨道
+   */
+  private initORFFinder() {
+    const minLengthInput = document.getElementById('orf-min-length') as HTMLInputElement | null;
+    const codeSelect = document.getElementById('orf-genetic-code') as HTMLSelectElement | null;
+    const startCodonsInput = document.getElementById('orf-start-codons') as HTMLInputElement | null;
+    const findBtn = document.getElementById('orf-find-btn');
+    const status = document.getElementById('orf-status');
+    if (!minLengthInput || !codeSelect || !startCodonsInput || !findBtn || !status) return;
+    
+    GENETIC_CODES.forEach(code => codeSelect.appendChild(new Option(`${code.id}. ${code.name}`, code.id.toString())));
+    minLengthInput.value = DEFAULT_ORF_OPTIONS.minLength.toString();
+    codeSelect.value = DEFAULT_ORF_OPTIONS.geneticCode.toString();
+    startCodonsInput.value = DEFAULT_ORF_OPTIONS.startCodons.join(', ');
+    
+    const showStatus = (message: string, isError: boolean) => {
+      status.textContent = message;
+      status.classList.toggle('error', isError);
+    };
+    
+    findBtn.addEventListener('click', () => {
+      if (!this.cgview || !this.cgview.getGenome()) {
+        showStatus('No genome loaded', true);
+        return;
+      }
+      
+      const minLength = parseInt(minLengthInput.value);
+      const startCodons = startCodonsInput.value.toUpperCase().split(/[\s,]+/).filter(codon => codon !== '');
+      if (!(minLength > 0)) {
+        showStatus('Invalid minimum length', true);
+        return;
+      }
+      if (startCodons.length === 0 || startCodons.some(codon => !/^[ACGT]{3}$/.test(codon))) {
+        showStatus('Start codons must be three-letter ACGT codons', true);
+        return;
+      }
+      
+      try {
+        const count = this.cgview.findORFs({ minLength, startCodons, geneticCode: parseInt(codeSelect.value) });
+        showStatus(`${count} ORF(s) found`, false);
+      } catch (error) {
+        showStatus((error as Error).message, true);
+      }
+    });
+  }
+  
+  /**
+   * 初始化限制性酶切位点面板：扫描内置酶和自定义酶的切点数，
+   * 列出所选切点数（单切、双切）的酶，勾选的酶的切点显示在图上
+   */
+  private initRestrictionSites() {
+    const cuttersSelect = document.getElementById('restriction-cutters') as HTMLSelectElement | null;
+    const customInput = document.getElementById('restriction-custom') as HTMLTextAreaElement | null;
+    const scanBtn = document.getElementById('restriction-scan-btn');
+    const status = document.getElementById('restriction-status');
+    const enzymeList = document.getElementById('restriction-enzyme-list');
+    if (!cuttersSelect || !customInput || !scanBtn || !status || !enzymeList) return;
+    
+    // 最近一次扫描的结果，切换单切 / 双切时无需重新扫描
+    let digest: RestrictionDigest[] = [];
+    let customEnzymes: RestrictionEnzyme[] = [];
+    
+    const showStatus = (message: string, isError: boolean) => {
+      status.textContent = message;
+      status.classList.toggle('error', isError);
+    };
+    
+    // 按勾选的酶更新图上的酶切位点
+    const applySelection = () => {
+      if (!this.cgview) return;
+      const enzymes = Array.from(enzymeList.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked')).map(checkbox => checkbox.value);
+      try {
+        const count = this.cgview.showRestrictionSites({ enzymes, customEnzymes });
+        showStatus(`${count} cut site(s) from ${enzymes.length} enzyme(s)`, false);
+      } catch (error) {
+        showStatus((error as Error).message, true);
+      }
+    };
+    
+    // 列出切点数符合所选条件的酶，默认全部勾选
+    const renderEnzymeList = () => {
+      const counts = cuttersSelect.value.split(',').map(value => parseInt(value));
+      const matched = digest.filter(item => counts.includes(item.count));
+      enzymeList.innerHTML = '';
+      
+      matched.forEach(item => {
+        const enzymeItem = document.createElement('label');
+        enzymeItem.className = 'restriction-enzyme-item';
+        
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.value = item.enzyme.name;
+        checkbox.checked = true;
+        checkbox.addEventListener('change', applySelection);
+        
+        const name = document.createElement('span');
+        name.textContent = item.enzyme.name;
+        
+        const site = document.createElement('span');
+        site.className = 'restriction-enzyme-site';
+        site.textContent = formatRestrictionSite(item.enzyme);
+        
+        const count = document.createElement('span');
+        count.textContent = `×${item.count}`;
+        
+        enzymeItem.appendChild(checkbox);
+        enzymeItem.appendChild(name);
+        enzymeItem.appendChild(site);
+        enzymeItem.appendChild(count);
+        enzymeList.appendChild(enzymeItem);
+      });
+      
+      if (matched.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'restriction-enzyme-empty';
+        empty.textContent = 'No matching enzymes';
+        enzymeList.appendChild(empty);
+      }
+      
+      applySelection();
+    };
+    
+    scanBtn.addEventListener('click', () => {
+      if (!this.cgview || !this.cgview.getGenome()) {
+        showStatus('No genome loaded', true);
+        return;
+      }
+      
+      try {
+        // 每行一个自定义酶："名称 识别序列"，识别序列中用 ^ 标记切点
+        customEnzymes = customInput.value.split('\n')
+          .map(line => line.trim())
+          .filter(line => line !== '')
+          .map(line => {
+            const parts = line.split(/\s+/);
+            if (parts.length !== 2) {
+              throw new Error(`Invalid custom enzyme: ${line}`);
+            }
+            return parseRestrictionSite(parts[0], parts[1]);
+          });
+        digest = this.cgview.digestRestrictionSites(customEnzymes);
+      } catch (error) {
+        showStatus((error as Error).message, true);
+        return;
+      }
+      
+      renderEnzymeList();
+    });
+    
+    cuttersSelect.addEventListener('change', () => {
+      if (digest.length > 0) {
+        renderEnzymeList();
+      }
+    });
+  }
+  
+  /**
+   * 初始化序列基序 / 引物查找面板：匹配位点显示在临时轨道中并列在面板里，点击位点缩放到该处
+   */
+  private initMotifSearch() {
+    const patternInput = document.getElementById('motif-pattern') as HTMLInputElement | null;
+    const mismatchesInput = document.getElementById('motif-mismatches') as HTMLInputElement | null;
+    const searchBtn = document.getElementById('motif-search-btn');
+    const clearBtn = document.getElementById('motif-clear-btn');
+    const status = document.getElementById('motif-status');
+    const results = document.getElementById('motif-results');
+    if (!patternInput || !mismatchesInput || !searchBtn || !clearBtn || !status || !results) return;
+    
+    // 列表中最多显示的位点数，其余位点只显示在轨道上
+    const maxListed = 500;
+    
+    const showStatus = (message: string, isError: boolean) => {
+      status.textContent = message;
+      status.classList.toggle('error', isError);
+    };
+    
+    const displayHits = (hits: Feature[]) => {
+      results.innerHTML = '';
+      hits.slice(0, maxListed).forEach(hit => {
+        const resultItem = document.createElement('div');
+        resultItem.className = 'search-result-item';
+        const mismatches = parseInt(hit.attributes.mismatches as string);
+        // 序列 ID 来自用户文件，用 textContent 填入，不作为 HTML 解析
+        const name = document.createElement('div');
+        name.className = 'result-name';
+        name.textContent = `${hit.sequenceId}:${hit.start} - ${hit.end} (${hit.strand})`;
+        const matched = document.createElement('span');
+        matched.className = 'motif-matched';
+        matched.textContent = hit.attributes.matched as string;
+        const position = document.createElement('div');
+        position.className = 'result-position';
+        position.append(matched, ` · ${mismatches} mismatch${mismatches === 1 ? '' : 'es'}`);
+        resultItem.append(name, position);
+        // 点击时缩放到该位点并高亮显示
+        resultItem.addEventListener('click', () => {
+          this.cgview?.zoomTo(hit.start, hit.end);
+          this.cgview?.highlightFeature(hit);
+        });
+        results.appendChild(resultItem);
+      });
+      if (hits.length > maxListed) {
+        const more = document.createElement('div');
+        more.className = 'result-children';
+        more.textContent = `${hits.length - maxListed} more hit(s) shown on the map only`;
+        results.appendChild(more);
+      }
+    };
+    
+    const search = () => {
+      if (!this.cgview || !this.cgview.getGenome()) {
+        showStatus('No genome loaded', true);
+        return;
+      }
+      
+      // 粘贴的引物序列中可能带有空格或换行
+      const pattern = patternInput.value.replace(/\s+/g, '').toUpperCase();
+      const maxMismatches = parseInt(mismatchesInput.value);
+      if (!isIUPACSequence(pattern)) {
+        showStatus('Sequence must use IUPAC nucleotide codes', true);
+        return;
+      }
+      if (!(maxMismatches >= 0) || maxMismatches >= pattern.length) {
+        showStatus('Mismatches must be fewer than the sequence length', true);
+        return;
+      }
+      
+      try {
+        const result = this.cgview.searchMotif({ pattern, maxMismatches });
+        showStatus(result.truncated ? `Too many hits, first ${result.hits.length} kept` : `${result.hits.length} hit(s) found`, false);
+        displayHits(result.hits);
+      } catch (error) {
+        showStatus((error as Error).message, true);
+      }
+    };
+    
+    searchBtn.addEventListener('click', search);
+    patternInput.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        search();
+      }
+    });
+    
+    clearBtn.addEventListener('click', () => {
+      this.cgview?.clearMotifSearch();
+      results.innerHTML = '';
+      showStatus('', false);
+    });
+  }
+  
   /**
    * 初始化渲染模式切换
    */
@@ -193,10 +549,14 @@ export class SidebarManager {
       
       const geneName = feature.name || feature.id || 'Unnamed gene';
       const position = `${feature.start} - ${feature.end}`;
+      // 基因下的转录本、CDS 等子特征会随基因一起高亮
+      const childCount = feature.children ? feature.children.length : 0;
+      const children = childCount > 0 ? `<div class="result-children">${childCount} child feature${childCount > 1 ? 's' : ''}</div>` : '';
       
       resultItem.innerHTML = `
         <div class="result-name">${geneName}</div>
         <div class="result-position">${position}</div>
+        ${children}
       `;
       
       // 点击结果项时，触发hover效果
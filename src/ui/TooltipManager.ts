@@ -1,4 +1,5 @@
 import { CGView } from '../core';
+import { escapeHTML } from '../core/utils/html';
 
 /**
  * 工具提示管理类
@@ -43,7 +44,7 @@ export class TooltipManager {
       let timeout: number | null = null;
       return (...args: Parameters<T>) => {
         if (!timeout) {
-          timeout = setTimeout(() => {
+          timeout = window.setTimeout(() => {
             func(...args);
             timeout = null;
           }, wait);
@@ -77,43 +78,154 @@ export class TooltipManager {
       this.tooltip.style.display = 'block';
       
       // 构建tooltip内容
-      let content = '<div style="font-weight: bold; margin-bottom: 5px;">Gene Information</div>';
+      const isVariant = feature.track && feature.track.type === 'variant';
+      const isBlastHit = feature.track && feature.track.type === 'blast';
+      // 定量轨道（bedGraph / WIG 信号以及 GC 偏斜曲线）都带有绘图选项
+      const isSignal = feature.track && !!feature.track.plot;
+      const isReplication = feature.track && feature.track.type === 'replication_prediction';
+      const isORF = feature.track && feature.track.type === 'orf';
+      const isRestriction = feature.track && feature.track.type === 'restriction_site';
+      const isMotif = feature.track && feature.track.type === 'motif_hit';
+      const title = isVariant ? 'Variant Information' : isBlastHit ? 'Alignment Information' : isSignal ? 'Signal Information' : isReplication ? 'Replication Prediction' : isORF ? 'ORF Information' : isRestriction ? 'Restriction Site' : isMotif ? 'Motif Hit' : 'Gene Information';
+      let content = `<div style="font-weight: bold; margin-bottom: 5px;">${title}</div>`;
       
       // 添加gene名称
       if (feature.name) {
-        content += `<div><strong>Name:</strong> ${feature.name}</div>`;
+        content += `<div><strong>Name:</strong> ${escapeHTML(feature.name)}</div>`;
       }
       
       // 添加gene ID
       if (feature.id) {
-        content += `<div><strong>ID:</strong> ${feature.id}</div>`;
+        content += `<div><strong>ID:</strong> ${escapeHTML(feature.id)}</div>`;
       }
       
-      // 添加位置信息
-      content += `<div><strong>Position:</strong> ${feature.start} - ${feature.end}</div>`;
+      // 添加位置信息，跨越环状序列原点的特征 end 大于序列长度，显示时换算回序列坐标
+      const sequence = this.cgview?.getGenome()?.sequences.find((s: any) => s.id === feature.sequenceId);
+      if (isReplication) {
+        content += `<div><strong>Position:</strong> ${escapeHTML(feature.sequenceId)}:${feature.start}</div>`;
+      } else if (isRestriction) {
+        content += `<div><strong>Cut after:</strong> ${escapeHTML(feature.sequenceId)}:${feature.start}</div>`;
+      } else if (sequence && sequence.circular && sequence.length > 0 && feature.end > sequence.length) {
+        content += `<div><strong>Position:</strong> ${feature.start} - ${feature.end - sequence.length} (spans origin)</div>`;
+      } else {
+        content += `<div><strong>Position:</strong> ${feature.start} - ${feature.end}</div>`;
+      }
       
-      // 添加长度信息
-      const length = feature.end - feature.start + 1;
-      content += `<div><strong>Length:</strong> ${length} bp</div>`;
+      // 添加长度信息，不连续特征为各片段长度之和，变异位点为 REF 的长度，预测位点只有一个坐标
+      if (feature.segments && feature.segments.length > 1) {
+        const length = feature.segments.reduce((total: number, segment: any) => total + segment.end - segment.start + 1, 0);
+        content += `<div><strong>Length:</strong> ${length} bp (${feature.segments.length} segments)</div>`;
+      } else if (isVariant) {
+        content += `<div><strong>Length:</strong> ${escapeHTML(feature.attributes.ref_length || 1)} bp</div>`;
+      } else if (!isReplication && !isRestriction) {
+        const length = feature.end - feature.start + 1;
+        content += `<div><strong>Length:</strong> ${length} bp</div>`;
+      }
       
-      // 添加方向信息
-      if (feature.strand) {
+      // 添加方向信息（变异位点、信号区间和预测位点没有方向，酶切位点的方向随识别序列显示）
+      if (feature.strand && !isVariant && !isSignal && !isReplication && !isRestriction) {
         content += `<div><strong>Strand:</strong> ${feature.strand === '+' ? 'Forward' : 'Reverse'}</div>`;
       }
       
       // 添加track信息
       if (feature.track) {
-        content += `<div><strong>Track:</strong> ${feature.track.name}</div>`;
+        content += `<div><strong>Track:</strong> ${escapeHTML(feature.track.name)}</div>`;
+      }
+      
+      // 添加父子层级信息（GFF3 Parent 属性）
+      if (feature.parents && feature.parents.length > 0) {
+        const parents = feature.parents.map((parent: any) => `${escapeHTML(parent.name || parent.id)} (${escapeHTML(parent.type)})`).join(', ');
+        content += `<div><strong>Parent:</strong> ${parents}</div>`;
+      }
+      if (feature.children && feature.children.length > 0) {
+        // 按类型统计子特征数量，如 "mRNA ×2, CDS ×5"
+        const counts: Map<string, number> = new Map();
+        feature.children.forEach((child: any) => counts.set(child.type, (counts.get(child.type) || 0) + 1));
+        const children = Array.from(counts.entries()).map(([type, count]) => `${escapeHTML(type)} ×${count}`).join(', ');
+        content += `<div><strong>Children:</strong> ${children}</div>`;
       }
       
       // 添加产品信息
       if (feature.attributes && feature.attributes.product) {
-        content += `<div><strong>Product:</strong> ${feature.attributes.product}</div>`;
+        content += `<div><strong>Product:</strong> ${escapeHTML(feature.attributes.product)}</div>`;
+      }
+      
+      // 添加数据库交叉引用和本体术语（GFF3 多值属性）
+      ['Dbxref', 'Ontology_term'].forEach(key => {
+        const values = feature.attributes && feature.attributes[key];
+        if (values && !(feature.track && feature.track.type === 'table')) {
+          content += `<div><strong>${key}:</strong> ${escapeHTML(([] as string[]).concat(values).join(', '))}</div>`;
+        }
+      });
+      
+      // 添加变异信息（VCF REF/ALT/QUAL/INFO 列），符号等位基因（如 <DEL>）需要转义
+      if (isVariant) {
+        content += `<div><strong>REF:</strong> ${escapeHTML(feature.attributes.REF)}</div>`;
+        content += `<div><strong>ALT:</strong> ${escapeHTML(feature.attributes.ALT)}</div>`;
+        content += `<div><strong>QUAL:</strong> ${escapeHTML(feature.attributes.QUAL)}</div>`;
+        if (feature.attributes.INFO && feature.attributes.INFO !== '.') {
+          // 每个 INFO 字段单独一行
+          const infoRows = feature.attributes.INFO.split(';').map((entry: string) => `<div style="padding-left: 10px;">${escapeHTML(entry)}</div>`).join('');
+          content += `<div><strong>INFO:</strong></div>${infoRows}`;
+        }
+      }
+      
+      // 添加推断依据（累积 GC 偏斜的最小值 / 最大值）
+      if (isReplication) {
+        content += `<div><strong>Cumulative GC skew:</strong> ${escapeHTML(feature.attributes.cumulative_gc_skew)} (${feature.type === 'replication_origin' ? 'minimum' : 'maximum'})</div>`;
+      }
+      
+      // 添加读框、编码的氨基酸数（不含终止密码子）以及是否与注释的 CDS 重叠
+      if (isORF) {
+        content += `<div><strong>Frame:</strong> ${escapeHTML(feature.attributes.frame)}</div>`;
+        content += `<div><strong>Protein:</strong> ${(feature.end - feature.start + 1) / 3 - 1} aa</div>`;
+        content += `<div><strong>Annotated CDS:</strong> ${feature.attributes.annotated === 'true' ? 'overlapping' : 'none (unannotated ORF)'}</div>`;
+      }
+      
+      // 添加酶名、识别序列（^ 为切点）及其所在位置和链、整个基因组上的切点数
+      if (isRestriction) {
+        const cutCount = parseInt(feature.attributes.cut_count);
+        const cutter = cutCount === 1 ? 'single cutter' : cutCount === 2 ? 'double cutter' : `${cutCount} cuts`;
+        content += `<div><strong>Enzyme:</strong> ${escapeHTML(feature.attributes.enzyme)}</div>`;
+        content += `<div><strong>Recognition site:</strong> ${escapeHTML(feature.attributes.site)}</div>`;
+        content += `<div><strong>Site:</strong> ${escapeHTML(feature.attributes.site_start)} - ${escapeHTML(feature.attributes.site_end)}${feature.strand === '-' ? ' (reverse strand)' : ''}</div>`;
+        content += `<div><strong>Cuts in genome:</strong> ${cutCount} (${cutter})</div>`;
+      }
+      
+      // 添加查找序列、匹配链上的序列和错配数
+      if (isMotif) {
+        content += `<div><strong>Pattern:</strong> ${escapeHTML(feature.attributes.pattern)}</div>`;
+        content += `<div><strong>Matched:</strong> ${escapeHTML(feature.attributes.matched)}</div>`;
+        content += `<div><strong>Mismatches:</strong> ${escapeHTML(feature.attributes.mismatches)}</div>`;
+      }
+      
+      // 添加比对信息（BLAST HSP）
+      if (isBlastHit) {
+        content += `<div><strong>Query:</strong> ${escapeHTML(feature.attributes.query)} (${escapeHTML(feature.attributes.query_range)})</div>`;
+        content += `<div><strong>Identity:</strong> ${escapeHTML(feature.attributes.identity)}%</div>`;
+        content += `<div><strong>E-value:</strong> ${escapeHTML(feature.attributes.evalue)}</div>`;
+      }
+      
+      // 添加信号值（bedGraph / WIG）
+      if (isSignal) {
+        content += `<div><strong>Value:</strong> ${escapeHTML(feature.attributes.value)}</div>`;
+      }
+      
+      // 添加表格中未对应到特征字段的列
+      if (feature.track && feature.track.type === 'table') {
+        Object.entries(feature.attributes || {}).forEach(([key, value]) => {
+          content += `<div><strong>${escapeHTML(key)}:</strong> ${escapeHTML(value)}</div>`;
+        });
+      }
+      
+      // 添加区域得分（BED score 列）
+      if (feature.attributes && feature.attributes.score) {
+        content += `<div><strong>Score:</strong> ${escapeHTML(feature.attributes.score)}</div>`;
       }
       
       // 添加contig信息
       if (feature.seqid) {
-        content += `<div><strong>Contig:</strong> ${feature.seqid}</div>`;
+        content += `<div><strong>Contig:</strong> ${escapeHTML(feature.seqid)}</div>`;
       }
       
       // 使用requestAnimationFrame更新DOM